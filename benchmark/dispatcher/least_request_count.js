@@ -0,0 +1,69 @@
+'use strict';
+
+const common = require('../common');
+const {
+  LeastRequestCountDispatcher,
+} = require('#self/data_plane/dispatcher/least_request_count');
+
+const bench = common.createBenchmark(main, {
+  n: [1e5],
+  workers: [10, 100, 1000],
+  concurrency: [1, 100],
+});
+
+class BenchWorker {
+  constructor(name) {
+    this.name = name;
+    this.activeRequestCount = 0;
+    this.trafficOff = false;
+    this.responseTimeEwma = 0;
+    this.dispatcherData = undefined;
+  }
+
+  getDispatcherData() {
+    return this.dispatcherData;
+  }
+
+  setDispatcherData(val) {
+    this.dispatcherData = val;
+  }
+
+  invoke() {
+    this.activeRequestCount++;
+    return Promise.resolve({
+      finish: () => {
+        this.activeRequestCount--;
+        return Promise.resolve();
+      },
+    });
+  }
+}
+
+const delegate = {
+  maxActiveRequestCount: Infinity,
+  checkRequestQueueing() {},
+  createPendingRequest() {
+    throw new Error('unexpected request queueing');
+  },
+  getPendingRequestCount() {
+    return 0;
+  },
+  getPendingRequest() {},
+};
+
+async function main({ n, workers, concurrency }) {
+  const dispatcher = new LeastRequestCountDispatcher(delegate);
+  for (let i = 0; i < workers; i++) {
+    dispatcher.registerWorker(new BenchWorker(`worker-${i}`));
+  }
+
+  bench.start();
+  for (let i = 0; i < n; i += concurrency) {
+    const futures = [];
+    for (let j = 0; j < concurrency; j++) {
+      futures.push(dispatcher.invoke(Buffer.alloc(0), {}));
+    }
+    await Promise.all(futures);
+  }
+  bench.end(n);
+}
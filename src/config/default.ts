@@ -25,6 +25,22 @@ export default {
     daprAdaptorModulePath: undefined,
     daprAdaptorModuleOptions: undefined,
     beaconHostModulePath: undefined,
+    drainGracePeriod: 10_000,
+    httpGateway: {
+      enabled: false,
+      host: '127.0.0.1',
+      port: 8080,
+      requestTimeout: 10_000,
+      keepAliveTimeout: 5000,
+      requestIdHeader: 'x-noslated-request-id',
+      routes: [],
+    },
+    asyncInvoke: {
+      dir: path.join(projectRoot, '.code/async_invoke'),
+      concurrency: 10,
+      timeout: 10_000,
+      resultRetention: 24 * 3600 * 1000,
+    },
   },
 
   dirs: {
@@ -73,6 +89,12 @@ export default {
     requestCountLimit: 10000,
     pendingRequestCountLimit: 1000,
     systemLoad1Limit: 10,
+    freeMemoryLimit: 0,
+    eventLoopDelayLimit: 1000,
+    checkInterval: 1000,
+    openThreshold: 5,
+    closeThreshold: 3,
+    halfOpenCheckCount: 3,
   },
 
   logger: {
@@ -83,6 +105,7 @@ export default {
     // only influence on access/error/resource log now
     // TODO: set to @midwayjs/logger instance when support
     timestampFormat: 'YYYY-MM-DD HH:mm:ss.SSS',
+    accessLogFormat: 'text',
   },
 
   grpc: {
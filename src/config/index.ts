@@ -140,6 +140,99 @@ export interface DatePlaneConfig {
    * Beacon Host 模块路径
    */
   beaconHostModulePath?: string;
+  /**
+   * 关闭或函数被移除时等待进行中请求完成的最长时间，单位毫秒
+   * 默认 10s
+   */
+  drainGracePeriod: number;
+  /**
+   * 内置 HTTP 网关配置
+   */
+  httpGateway: HttpGatewayConfig;
+  /**
+   * 异步调用配置
+   */
+  asyncInvoke: AsyncInvokeConfig;
+}
+
+export interface HttpGatewayConfig {
+  /**
+   * 是否开启 HTTP 网关
+   * 默认为 false
+   */
+  enabled: boolean;
+  /**
+   * 监听地址
+   * 默认为 127.0.0.1
+   */
+  host: string;
+  /**
+   * 监听端口，为 0 时随机分配
+   * 默认为 8080
+   */
+  port: number;
+  /**
+   * 请求超时时间，单位毫秒
+   * 默认为 10s
+   */
+  requestTimeout: number;
+  /**
+   * 空闲长连接保持时间，单位毫秒
+   * 默认为 5s
+   */
+  keepAliveTimeout: number;
+  /**
+   * 请求 ID 所在的请求头，未携带时自动生成，并在响应头中返回
+   * 默认为 x-noslated-request-id
+   */
+  requestIdHeader: string;
+  /**
+   * 路由规则，按顺序匹配，均未匹配时按 /{function}/... 路由至对应函数
+   * 默认为 []
+   */
+  routes: HttpGatewayRoute[];
+}
+
+export interface HttpGatewayRoute {
+  /**
+   * 匹配的 Host，不含端口
+   */
+  host?: string;
+  /**
+   * 匹配的路径前缀
+   */
+  pathPrefix?: string;
+  /**
+   * 目标函数名
+   */
+  functionName?: string;
+  /**
+   * 目标服务名，优先于 functionName
+   */
+  serviceName?: string;
+}
+
+export interface AsyncInvokeConfig {
+  /**
+   * 异步调用任务存储目录，各数据面使用其下 dp-{planeId} 子目录
+   * 默认为 .code/async_invoke
+   */
+  dir: string;
+  /**
+   * 同时执行的任务数
+   * 默认为 10
+   */
+  concurrency: number;
+  /**
+   * 未指定 deadline 时每次尝试的超时时间，单位毫秒
+   * 默认为 10s
+   */
+  timeout: number;
+  /**
+   * 已完成任务结果的保留时间，单位毫秒，死信任务不会被清理
+   * 默认为 24h
+   */
+  resultRetention: number;
 }
 
 export interface DirConfig {
@@ -294,6 +387,36 @@ export interface SystemCircuitBreakerConfig {
    * 默认为 10
    */
   systemLoad1Limit: number;
+  /**
+   * 系统空闲内存下限，单位 bytes，小于等于 0 时不检查
+   * 默认为 0
+   */
+  freeMemoryLimit: number;
+  /**
+   * Data Plane 事件循环 p99 延迟上限，单位 ms，小于等于 0 时不检查
+   * 默认为 1000
+   */
+  eventLoopDelayLimit: number;
+  /**
+   * 检查间隔，单位 ms
+   * 默认为 1000
+   */
+  checkInterval: number;
+  /**
+   * 连续超过阈值多少次后熔断
+   * 默认为 5
+   */
+  openThreshold: number;
+  /**
+   * 熔断后连续恢复多少次后进入半开状态
+   * 默认为 3
+   */
+  closeThreshold: number;
+  /**
+   * 半开状态下连续恢复多少次后关闭熔断，期间任意一次超过阈值即重新熔断
+   * 默认为 3
+   */
+  halfOpenCheckCount: number;
 }
 
 export interface LoggerConfig {
@@ -315,6 +438,12 @@ export interface LoggerConfig {
    * 默认为 YYYY-MM-DD HH:mm:ss.SSS
    */
   timestampFormat: string;
+  /**
+   * access.log 及 error.log 的格式
+   * json 格式每行一条记录，字段见 src/lib/json/request_log_schema.json
+   * 默认为 text
+   */
+  accessLogFormat: 'text' | 'json';
   /**
    * 自定义 LoggerFactory 模块路径
    * module.exports = CustomLoggerFactory;
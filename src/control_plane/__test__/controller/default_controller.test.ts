@@ -61,6 +61,12 @@ describe(common.testName(__filename), () => {
       },
     ],
     concurrency: 7,
+    circuitBreaker: {
+      state: 'closed',
+      errorRatio: 0,
+      p99Latency: 0,
+      sampleCount: 0,
+    },
   };
 
   const brokerData2: DeepRequired<noslated.data.IBrokerStats> = {
@@ -81,6 +87,12 @@ describe(common.testName(__filename), () => {
       },
     ],
     concurrency: 8,
+    circuitBreaker: {
+      state: 'closed',
+      errorRatio: 0,
+      p99Latency: 0,
+      sampleCount: 0,
+    },
   };
 
   describe('#autoScale()', () => {
@@ -135,6 +135,12 @@ function generateBrokerData(
     ],
     // instant concurrency stats concurrency = sum(worker.activeRequestCount)
     concurrency: activeRequestCount,
+    circuitBreaker: {
+      state: 'closed',
+      errorRatio: 0,
+      p99Latency: 0,
+      sampleCount: 0,
+    },
   };
 }
 
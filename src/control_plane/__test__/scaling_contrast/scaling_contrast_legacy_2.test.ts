@@ -95,6 +95,12 @@ function generateBrokerData(
       },
     ],
     concurrency: activeRequestCount,
+    circuitBreaker: {
+      state: 'closed',
+      errorRatio: 0,
+      p99Latency: 0,
+      sampleCount: 0,
+    },
   };
 }
 
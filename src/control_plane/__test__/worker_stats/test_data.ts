@@ -45,6 +45,12 @@ export const brokerData: DeepRequired<noslated.data.IBrokerStats>[] = [
       },
     ],
     concurrency: 1,
+    circuitBreaker: {
+      state: 'closed',
+      errorRatio: 0,
+      p99Latency: 0,
+      sampleCount: 0,
+    },
   },
   {
     functionName: 'func',
@@ -57,5 +63,11 @@ export const brokerData: DeepRequired<noslated.data.IBrokerStats>[] = [
       },
     ],
     concurrency: 6,
+    circuitBreaker: {
+      state: 'closed',
+      errorRatio: 0,
+      p99Latency: 0,
+      sampleCount: 0,
+    },
   },
 ];
@@ -6,13 +6,18 @@ import { NotNullableInterface } from '#self/lib/interfaces';
 import { EventBus } from '#self/lib/event-bus';
 import {
   RequestQueueingEvent,
+  SystemCircuitBreakerStatusEvent,
   WorkerStatusReportEvent,
   WorkerTrafficStatsEvent,
 } from '../events';
 import { Clock, TimerHandle } from '#self/lib/clock';
 
 export class DataPlaneSubscription {
-  static SubscriptionNames = ['requestQueueing', 'containerStatusReport'];
+  static SubscriptionNames = [
+    'requestQueueing',
+    'containerStatusReport',
+    'systemCircuitBreakerStatus',
+  ];
 
   private logger: Logger;
   private closed = false;
@@ -71,6 +76,24 @@ export class DataPlaneSubscription {
     }
   }
 
+  async systemCircuitBreakerStatus(
+    status: NotNullableInterface<root.noslated.data.ISystemCircuitBreakerStatusBroadcast>
+  ) {
+    this.logger.info(
+      'data plane(%s) system circuit breaker status changed: opened(%s), breakers(%j)',
+      this.client.planeId,
+      status.opened,
+      status.breakers
+    );
+
+    const event = new SystemCircuitBreakerStatusEvent(status, this.client);
+    try {
+      await this.eventBus.publish(event);
+    } catch (e) {
+      this.logger.error('Failed to process systemCircuitBreakerStatus', e);
+    }
+  }
+
   async _pullWorkerTrafficStats() {
     const stats = (await (this.client as any).getWorkerTrafficStats(
       {}
@@ -69,12 +69,23 @@ export class WorkerTrafficStatsEvent extends Event {
   }
 }
 
+export class SystemCircuitBreakerStatusEvent extends Event {
+  static type = 'system-circuit-breaker-status';
+  constructor(
+    public data: NotNullableInterface<root.noslated.data.ISystemCircuitBreakerStatusBroadcast>,
+    public client: DataPlaneClient
+  ) {
+    super(SystemCircuitBreakerStatusEvent.type);
+  }
+}
+
 export const events = [
   ContainerReconciledEvent,
   ...FunctionProfileManagerEvents,
   FunctionProfileSynchronizedEvent,
   PlatformEnvironsUpdatedEvent,
   RequestQueueingEvent,
+  SystemCircuitBreakerStatusEvent,
   WorkerStatusReportEvent,
   WorkerStoppedEvent,
   WorkerTrafficStatsEvent,
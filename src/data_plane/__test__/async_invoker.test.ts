@@ -0,0 +1,227 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import * as common from '#self/test/common';
+import { config } from '#self/config';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { AsyncInvoker, AsyncJobStatus } from '#self/data_plane/async_invoker';
+import { FunctionAsyncInvokeProfile } from '#self/lib/json/function_profile';
+import { RpcError, RpcStatus } from '#self/lib/rpc/error';
+import {
+  bufferFromStream,
+  createDeferred,
+  getCurrentPlaneId,
+  sleep,
+} from '#self/lib/util';
+
+type Handler = (
+  body: Buffer,
+  metadata: Metadata
+) => Promise<TriggerResponse> | TriggerResponse;
+
+class TestDelegate {
+  invocations: { name: string; body: Buffer; metadata: Metadata }[] = [];
+  handlers: Handler[] = [];
+  profile?: FunctionAsyncInvokeProfile = { backoff: 10 };
+
+  invoke = async (
+    name: string,
+    input: Buffer | Readable,
+    metadata: Metadata
+  ) => {
+    const body = Buffer.isBuffer(input) ? input : await bufferFromStream(input);
+    this.invocations.push({ name, body, metadata });
+    const handler = this.handlers.shift() ?? respond(200, 'ok');
+    return handler(body, metadata);
+  };
+
+  invokeService = this.invoke;
+
+  getAsyncInvokeProfile = () => this.profile;
+}
+
+function respond(status: number, body: string): Handler {
+  return () => {
+    const response = new TriggerResponse({
+      read() {},
+      status,
+      metadata: { headers: [['x-foo', 'bar']] },
+    });
+    response.push(Buffer.from(body));
+    response.push(null);
+    return response;
+  };
+}
+
+describe(common.testName(__filename), () => {
+  let dir: string;
+  let delegate: TestDelegate;
+  let invoker: AsyncInvoker;
+
+  function createInvoker() {
+    return new AsyncInvoker(delegate, {
+      ...config.dataPlane.asyncInvoke,
+      dir,
+    });
+  }
+
+  async function waitFor(id: string, status: AsyncJobStatus) {
+    for (;;) {
+      const job = await invoker.get(id);
+      if (job?.status === status) {
+        return job;
+      }
+      await sleep(10);
+    }
+  }
+
+  function listJobFiles(status: string) {
+    return fs
+      .readdirSync(path.join(dir, `dp-${getCurrentPlaneId()}`, status))
+      .sort();
+  }
+
+  async function waitForFiles(status: string, files: string[]) {
+    while (listJobFiles(status).join() !== files.join()) {
+      await sleep(10);
+    }
+  }
+
+  function failToWriteOnce(status: string) {
+    const writeJob = invoker['_writeJob'].bind(invoker);
+    let failed = false;
+    invoker['_writeJob'] = async (...args: Parameters<typeof writeJob>) => {
+      if (args[0] === status && !failed) {
+        failed = true;
+        throw Object.assign(new Error('no space left on device'), {
+          code: 'ENOSPC',
+        });
+      }
+      return writeJob(...args);
+    };
+  }
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'noslated-async-'));
+    delegate = new TestDelegate();
+    invoker = createInvoker();
+    await invoker.start();
+  });
+
+  afterEach(() => {
+    invoker.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should invoke in background and keep the result', async () => {
+    const job = await invoker.submit('invoke', 'foo', Buffer.from('foobar'), {
+      method: 'POST',
+      timeout: 1000,
+    });
+
+    const done = await waitFor(job.id, 'succeeded');
+    assert.strictEqual(done.attempts, 1);
+    assert.strictEqual(done.result?.status, 200);
+    assert.deepStrictEqual(done.result?.headers, [['x-foo', 'bar']]);
+    assert.strictEqual(
+      Buffer.from(done.result!.body, 'base64').toString(),
+      'ok'
+    );
+
+    const { name, body, metadata } = delegate.invocations[0];
+    assert.strictEqual(name, 'foo');
+    assert.strictEqual(body.toString(), 'foobar');
+    assert.strictEqual(metadata.method, 'POST');
+
+    assert.deepStrictEqual(listJobFiles('pending'), []);
+    assert.deepStrictEqual(listJobFiles('done'), [`${job.id}.json`]);
+  });
+
+  it('should retry failed attempts', async () => {
+    delegate.handlers.push(() => {
+      throw new RpcError('foo', { code: RpcStatus.UNAVAILABLE });
+    }, respond(503, 'unavailable'));
+    const job = await invoker.submit('invoke', 'foo', Buffer.from(''), {});
+
+    const done = await waitFor(job.id, 'succeeded');
+    assert.strictEqual(done.attempts, 3);
+    assert.strictEqual(done.error, undefined);
+    assert.strictEqual(delegate.invocations.length, 3);
+  });
+
+  it('should move exhausted jobs to dead letter', async () => {
+    delegate.profile = { maxAttempts: 2, backoff: 10 };
+    delegate.handlers.push(respond(500, 'error'), () => {
+      throw new RpcError('foo', { code: RpcStatus.UNAVAILABLE });
+    });
+    const job = await invoker.submit(
+      'invokeService',
+      'foo',
+      Buffer.from(''),
+      {}
+    );
+
+    const dead = await waitFor(job.id, 'dead_letter');
+    assert.strictEqual(dead.attempts, 2);
+    assert.deepStrictEqual(dead.error, {
+      name: 'Error',
+      message: 'foo',
+      code: RpcStatus.UNAVAILABLE,
+    });
+    assert.deepStrictEqual(listJobFiles('pending'), []);
+    assert.deepStrictEqual(listJobFiles('dead_letter'), [
+      `${job.id}.body`,
+      `${job.id}.json`,
+    ]);
+  });
+
+  it('should restore pending jobs on start', async () => {
+    const deferred = createDeferred<TriggerResponse>();
+    delegate.handlers.push(() => deferred.promise);
+    const job = await invoker.submit('invoke', 'foo', Buffer.from('foo'), {});
+    await waitFor(job.id, 'running');
+
+    // The interrupted attempt is not recorded.
+    invoker.close();
+    deferred.resolve(respond(200, 'ok')(Buffer.from(''), new Metadata({})));
+
+    invoker = createInvoker();
+    await invoker.start();
+    const done = await waitFor(job.id, 'succeeded');
+    assert.strictEqual(done.attempts, 2);
+    assert.strictEqual(delegate.invocations[1].body.toString(), 'foo');
+  });
+
+  it('should retry persisting succeeded jobs without invoking again', async () => {
+    failToWriteOnce('done');
+    const job = await invoker.submit('invoke', 'foo', Buffer.from('foo'), {});
+
+    await waitForFiles('done', [`${job.id}.json`]);
+    const done = await invoker.get(job.id);
+    assert.strictEqual(done?.status, 'succeeded');
+    assert.strictEqual(done?.attempts, 1);
+    assert.strictEqual(delegate.invocations.length, 1);
+    assert.deepStrictEqual(listJobFiles('pending'), []);
+  });
+
+  it('should retry persisting exhausted jobs without invoking again', async () => {
+    delegate.profile = { maxAttempts: 1, backoff: 10 };
+    delegate.handlers.push(respond(500, 'error'));
+    failToWriteOnce('dead_letter');
+    const job = await invoker.submit('invoke', 'foo', Buffer.from('foo'), {});
+
+    await waitForFiles('dead_letter', [`${job.id}.body`, `${job.id}.json`]);
+    await waitForFiles('pending', []);
+    const dead = await invoker.get(job.id);
+    assert.strictEqual(dead?.status, 'dead_letter');
+    assert.strictEqual(dead?.attempts, 1);
+    assert.strictEqual(delegate.invocations.length, 1);
+  });
+
+  it('should not find unknown jobs', async () => {
+    assert.strictEqual(await invoker.get('00000000-0000'), undefined);
+    assert.strictEqual(await invoker.get('../../foo'), undefined);
+  });
+});
@@ -124,5 +124,153 @@ describe(common.testName(__filename), () => {
       assert.strictEqual(breaker.opened, false);
       assert.strictEqual(statusChangedCount, 2);
     });
+
+    it('should apply configured thresholds and check interval', () => {
+      breaker = new SystemCircuitBreaker({} as any, {
+        requestCountLimit: 1,
+        pendingRequestCountLimit: 1,
+        systemLoad1Limit: 1,
+        checkInterval: 100,
+        openThreshold: 2,
+        closeThreshold: 1,
+        halfOpenCheckCount: 2,
+      });
+      breaker.start();
+
+      breaker._getActiveRequestCount = () => 0;
+      breaker._getPendingRequestCount = () => 0;
+      breaker._getOsLoad1 = () => 2;
+
+      clock.tick(100);
+      assert.strictEqual(breaker.opened, false);
+      clock.tick(100);
+      assert.strictEqual(breaker.opened, true);
+      assert.deepStrictEqual(breaker.openedBreakers, [
+        {
+          name: 'system-load',
+          reason: 'system load1 2.00 exceeded limit 1',
+        },
+      ]);
+
+      breaker._getOsLoad1 = () => 0;
+      clock.tick(100);
+      assert.strictEqual(breaker.opened, false);
+      assert.deepStrictEqual(breaker.openedBreakers, []);
+    });
+
+    it('should reopen on exceeded check in half-open state', () => {
+      breaker = new SystemCircuitBreaker({} as any, {
+        requestCountLimit: 1,
+        pendingRequestCountLimit: 1,
+        systemLoad1Limit: 1,
+      });
+      breaker.start();
+
+      breaker._getActiveRequestCount = () => 0;
+      breaker._getPendingRequestCount = () => 0;
+      breaker._getOsLoad1 = () => 2;
+
+      let statusChangedCount = 0;
+      breaker.on('status-changed', () => {
+        statusChangedCount++;
+      });
+      clock.tick(5000);
+      assert.strictEqual(breaker.opened, true);
+      assert.strictEqual(breaker.state, 'open');
+
+      breaker._getOsLoad1 = () => 0;
+      clock.tick(3000);
+      assert.strictEqual(breaker.opened, false);
+      assert.strictEqual(breaker.breakers[2].state, 'half-open');
+      assert.strictEqual(breaker.state, 'half-open');
+
+      // a single exceeded check reopens the breaker.
+      breaker._getOsLoad1 = () => 2;
+      clock.tick(1000);
+      assert.strictEqual(breaker.opened, true);
+
+      breaker._getOsLoad1 = () => 0;
+      clock.tick(6000);
+      assert.strictEqual(breaker.opened, false);
+      assert.strictEqual(breaker.breakers[2].state, 'closed');
+      assert.strictEqual(breaker.state, 'closed');
+      // half-open to closed doesn't change the aggregated state.
+      assert.strictEqual(statusChangedCount, 4);
+    });
+
+    it('should count consecutive checks', () => {
+      breaker = new SystemCircuitBreaker({} as any, {
+        requestCountLimit: 1,
+        pendingRequestCountLimit: 1,
+        systemLoad1Limit: 1,
+      });
+      breaker.start();
+
+      breaker._getActiveRequestCount = () => 0;
+      breaker._getPendingRequestCount = () => 0;
+
+      breaker._getOsLoad1 = () => 2;
+      clock.tick(4000);
+      breaker._getOsLoad1 = () => 0;
+      clock.tick(1000);
+      breaker._getOsLoad1 = () => 2;
+      clock.tick(4000);
+      assert.strictEqual(breaker.opened, false);
+      clock.tick(1000);
+      assert.strictEqual(breaker.opened, true);
+    });
+
+    it('should open circuit breaker on free memory below limit', () => {
+      breaker = new SystemCircuitBreaker({} as any, {
+        requestCountLimit: 1,
+        pendingRequestCountLimit: 1,
+        systemLoad1Limit: 1,
+        freeMemoryLimit: 1024,
+      });
+      breaker.start();
+
+      breaker._getActiveRequestCount = () => 0;
+      breaker._getPendingRequestCount = () => 0;
+      breaker._getOsLoad1 = () => 0;
+      breaker._getFreeMemory = () => 512;
+
+      clock.tick(5000);
+      assert.strictEqual(breaker.opened, true);
+      assert.deepStrictEqual(breaker.toJSON().breakers, [
+        {
+          name: 'free-memory',
+          reason: 'free memory 512 bytes below limit 1024 bytes',
+        },
+      ]);
+
+      breaker._getFreeMemory = () => 2048;
+      clock.tick(3000);
+      assert.strictEqual(breaker.opened, false);
+    });
+
+    it('should open circuit breaker on event loop delay exceeded limit', () => {
+      breaker = new SystemCircuitBreaker({} as any, {
+        requestCountLimit: 1,
+        pendingRequestCountLimit: 1,
+        systemLoad1Limit: 1,
+        eventLoopDelayLimit: 100,
+      });
+      breaker.start();
+      assert.strictEqual(breaker.breakers.length, 4);
+
+      breaker._getActiveRequestCount = () => 0;
+      breaker._getPendingRequestCount = () => 0;
+      breaker._getOsLoad1 = () => 0;
+      breaker._getEventLoopDelay = () => 200;
+
+      clock.tick(5000);
+      assert.strictEqual(breaker.opened, true);
+      assert.deepStrictEqual(breaker.openedBreakers, [
+        {
+          name: 'event-loop-delay',
+          reason: 'event loop delay 200.00ms exceeded limit 100ms',
+        },
+      ]);
+    });
   });
 });
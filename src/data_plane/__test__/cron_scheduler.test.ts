@@ -0,0 +1,135 @@
+import assert from 'assert';
+import { Readable } from 'stream';
+import * as common from '#self/test/common';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { CronScheduler } from '#self/data_plane/cron_scheduler';
+import {
+  FunctionTrigger,
+  RawFunctionProfile,
+} from '#self/lib/json/function_profile';
+import { createDeferred } from '#self/lib/util';
+
+describe(common.testName(__filename), () => {
+  let clock: common.TestClock;
+  let invocations: { name: string; body: Buffer; metadata: Metadata }[];
+  let pending: Promise<void> | undefined;
+  let scheduler: CronScheduler;
+
+  const delegate = {
+    invoke: async (
+      name: string,
+      input: Buffer | Readable,
+      metadata: Metadata
+    ) => {
+      invocations.push({ name, body: input as Buffer, metadata });
+      await pending;
+      const response = new TriggerResponse({ read() {}, status: 200 });
+      response.push(null);
+      return response;
+    },
+  };
+
+  function createProfile(triggers: FunctionTrigger[]): RawFunctionProfile {
+    return {
+      name: 'foo',
+      runtime: 'aworker',
+      url: 'file:///foo',
+      sourceFile: 'index.js',
+      signature: 'md5:234234',
+      triggers,
+    };
+  }
+
+  beforeEach(() => {
+    clock = common.createTestClock();
+    clock.fakeClock.setSystemTime(new Date(2023, 0, 1, 0, 0, 30));
+    invocations = [];
+    pending = undefined;
+    scheduler = new CronScheduler(delegate, clock);
+  });
+
+  afterEach(() => {
+    scheduler.close();
+    clock.uninstall();
+  });
+
+  it('should invoke on schedule', async () => {
+    scheduler.setProfiles([
+      createProfile([
+        {
+          type: 'cron',
+          schedule: '*/2 * * * *',
+          payload: 'foobar',
+          headers: [{ key: 'x-foo', value: 'bar' }],
+          timeout: 1000,
+        },
+      ]),
+    ]);
+    assert.strictEqual(scheduler.size, 1);
+
+    await clock.tickAsync(60_000);
+    assert.strictEqual(invocations.length, 0);
+    await clock.tickAsync(30_000);
+    assert.strictEqual(invocations.length, 1);
+
+    const { name, body, metadata } = invocations[0];
+    assert.strictEqual(name, 'foo');
+    assert.strictEqual(body.toString(), 'foobar');
+    assert.strictEqual(metadata.method, 'POST');
+    assert.deepStrictEqual(metadata.headers, [['x-foo', 'bar']]);
+    assert.strictEqual(metadata.deadline, clock.now() + 1000);
+
+    await clock.tickAsync(120_000);
+    assert.strictEqual(invocations.length, 2);
+  });
+
+  it('should skip overlapping runs if configured', async () => {
+    const deferred = createDeferred<void>();
+    pending = deferred.promise;
+    scheduler.setProfiles([
+      createProfile([
+        { type: 'cron', schedule: '* * * * *', skipOverlapping: true },
+        { type: 'cron', schedule: '* * * * *', payload: 'overlap' },
+      ]),
+    ]);
+
+    await clock.tickAsync(180_000);
+    const count = (payload: string) =>
+      invocations.filter(it => it.body.toString() === payload).length;
+    assert.strictEqual(count(''), 1);
+    assert.strictEqual(count('overlap'), 3);
+
+    deferred.resolve();
+    await clock.tickAsync(60_000);
+    assert.strictEqual(count(''), 2);
+  });
+
+  it('should update schedules', async () => {
+    const profile = createProfile([{ type: 'cron', schedule: '@hourly' }]);
+    scheduler.setProfiles([profile]);
+    await clock.tickAsync(1800_000);
+
+    // unchanged triggers keep their schedules.
+    scheduler.setProfiles([createProfile([...profile.triggers!])]);
+    await clock.tickAsync(1800_000);
+    assert.strictEqual(invocations.length, 1);
+
+    scheduler.setProfiles([
+      createProfile([{ type: 'cron', schedule: '30 * * * *' }]),
+    ]);
+    await clock.tickAsync(1800_000);
+    assert.strictEqual(invocations.length, 2);
+
+    scheduler.setProfiles([]);
+    assert.strictEqual(scheduler.size, 0);
+    await clock.tickAsync(3600_000);
+    assert.strictEqual(invocations.length, 2);
+  });
+
+  it('should ignore invalid schedules', () => {
+    scheduler.setProfiles([
+      createProfile([{ type: 'cron', schedule: 'every minute' }]),
+    ]);
+    assert.strictEqual(scheduler.size, 0);
+  });
+});
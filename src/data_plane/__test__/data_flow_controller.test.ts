@@ -5,6 +5,7 @@ import sinon from 'sinon';
 import assert from 'assert';
 import { Metadata } from '#self/delegate/request_response';
 import { TriggerErrorStatus } from '../request_logger';
+import { RpcStatus } from '#self/lib/rpc/error';
 
 const { baselineDir } = common;
 
@@ -325,6 +326,71 @@ describe(common.testName(__filename), () => {
 
       assert.strictEqual(responseBuffer.toString(), 'foobar');
     });
+
+    it('should log request by data_flow_controller invoke function with oversized response', async () => {
+      await env.agent.setFunctionProfile([
+        {
+          name: 'aworker_huge_response',
+          runtime: 'aworker',
+          url: `file://${baselineDir}/aworker_huge_response`,
+          sourceFile: 'index.js',
+          signature: 'md5:234234',
+          limits: {
+            maxResponseBytes: 1024,
+          },
+        },
+      ]);
+
+      const response = await env.data.dataFlowController.invoke(
+        'aworker_huge_response',
+        Buffer.from('65536'),
+        metadata
+      );
+
+      await assert.rejects(bufferFromStream(response), {
+        code: RpcStatus.RESOURCE_EXHAUSTED,
+        message: /Response body exceeds the limit of 1024 bytes/,
+      });
+
+      // wait log write
+      await sleep(10);
+
+      assert(
+        assertAccessCalled(
+          accessSpy,
+          'aworker_huge_response',
+          requestId,
+          String(TriggerErrorStatus.PAYLOAD_TOO_LARGE)
+        )
+      );
+    });
+
+    it('should reject oversized request by data_flow_controller invoke function', async () => {
+      await env.agent.setFunctionProfile([
+        {
+          name: 'aworker_echo',
+          runtime: 'aworker',
+          url: `file://${baselineDir}/aworker_echo`,
+          sourceFile: 'index.js',
+          signature: 'md5:234234',
+          limits: {
+            maxRequestBytes: 3,
+          },
+        },
+      ]);
+
+      await assert.rejects(
+        env.data.dataFlowController.invoke(
+          'aworker_echo',
+          Buffer.from('foobar'),
+          metadata
+        ),
+        {
+          code: RpcStatus.RESOURCE_EXHAUSTED,
+          message: /Request body exceeds the limit of 3 bytes/,
+        }
+      );
+    });
   });
 });
 
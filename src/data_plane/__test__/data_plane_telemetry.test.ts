@@ -0,0 +1,106 @@
+import assert from 'assert';
+import { MeterProvider } from '@opentelemetry/sdk-metrics';
+import * as common from '#self/test/common';
+import { getMetricRecords, TestMetricReader } from '#self/test/telemetry-util';
+import {
+  DataPlaneMetrics,
+  PlaneMetricAttributes,
+} from '#self/lib/telemetry/semantic_conventions';
+import { CircuitBreakerState } from '../circuit_breaker';
+import { DataPlaneTelemetry } from '../data_plane_telemetry';
+import { DataFlowController } from '../data_flow_controller';
+
+function createBroker(
+  name: string,
+  pendingRequestCount: number,
+  activeRequestCounts: number[]
+) {
+  return {
+    name,
+    getPendingRequestCount: () => pendingRequestCount,
+    activeRequestCount: activeRequestCounts.reduce((a, b) => a + b, 0),
+    *workers() {
+      yield* activeRequestCounts.map(activeRequestCount => ({
+        activeRequestCount,
+      }));
+    },
+  };
+}
+
+describe(common.testName(__filename), () => {
+  let metricReader: TestMetricReader;
+  let dataFlowController: Pick<
+    DataFlowController,
+    'brokers' | 'circuitBreaker'
+  >;
+
+  beforeEach(() => {
+    metricReader = new TestMetricReader();
+    const meterProvider = new MeterProvider();
+    meterProvider.addMetricReader(metricReader);
+    dataFlowController = {
+      brokers: new Map(),
+      circuitBreaker: { state: CircuitBreakerState.CLOSED },
+    } as any;
+    new DataPlaneTelemetry(meterProvider.getMeter('test'), dataFlowController);
+  });
+
+  async function collect(name: string, functionName?: string) {
+    const result = await metricReader.collect();
+    return getMetricRecords<number>(
+      result,
+      name,
+      functionName
+        ? { [PlaneMetricAttributes.FUNCTION_NAME]: functionName }
+        : {}
+    ).map(it => it.value);
+  }
+
+  it('should observe function brokers', async () => {
+    dataFlowController.brokers.set(
+      'foo',
+      createBroker('foo', 2, [1, 3]) as any
+    );
+    // Broker of the same function with inspector.
+    dataFlowController.brokers.set(
+      'foo$$inspect',
+      createBroker('foo', 1, [1]) as any
+    );
+    dataFlowController.brokers.set('bar', createBroker('bar', 0, []) as any);
+
+    assert.deepStrictEqual(
+      await collect(DataPlaneMetrics.QUEUE_LENGTH, 'foo'),
+      [3]
+    );
+    assert.deepStrictEqual(
+      await collect(DataPlaneMetrics.ACTIVE_REQUEST_COUNT, 'foo'),
+      [5]
+    );
+    assert.deepStrictEqual(
+      await collect(DataPlaneMetrics.WORKER_COUNT, 'foo'),
+      [3]
+    );
+    assert.deepStrictEqual(
+      await collect(DataPlaneMetrics.WORKER_COUNT, 'bar'),
+      [0]
+    );
+  });
+
+  it('should observe system circuit breaker state', async () => {
+    assert.deepStrictEqual(
+      await collect(DataPlaneMetrics.SYSTEM_CIRCUIT_BREAKER_STATE),
+      [0]
+    );
+    (dataFlowController.circuitBreaker as any).state =
+      CircuitBreakerState.HALF_OPEN;
+    assert.deepStrictEqual(
+      await collect(DataPlaneMetrics.SYSTEM_CIRCUIT_BREAKER_STATE),
+      [1]
+    );
+    (dataFlowController.circuitBreaker as any).state = CircuitBreakerState.OPEN;
+    assert.deepStrictEqual(
+      await collect(DataPlaneMetrics.SYSTEM_CIRCUIT_BREAKER_STATE),
+      [2]
+    );
+  });
+});
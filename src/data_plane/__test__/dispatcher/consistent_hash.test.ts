@@ -0,0 +1,181 @@
+import { Metadata } from '#self/delegate/request_response';
+import * as common from '#self/test/common';
+import assert from 'assert';
+import { TestDataWorker, TestDispatcherDelegate } from './test-util';
+import { ConsistentHashDispatcher } from '#self/data_plane/dispatcher/consistent_hash';
+import { bufferFromStream } from '#self/lib/util';
+import _ from 'lodash';
+
+describe(common.testName(__filename), () => {
+  let delegate: TestDispatcherDelegate;
+  let dispatcher: ConsistentHashDispatcher;
+
+  const maxActiveRequestCount = 10;
+  beforeEach(() => {
+    delegate = new TestDispatcherDelegate(maxActiveRequestCount);
+    dispatcher = new ConsistentHashDispatcher(delegate, {
+      getKey: metadata => metadata.headers.find(it => it[0] === 'x-key')?.[1],
+    });
+  });
+
+  afterEach(() => {
+    delegate.close();
+  });
+
+  function createMetadata(key?: string) {
+    return new Metadata({
+      headers: key == null ? [] : [['x-key', key]],
+    });
+  }
+
+  const keys = _.times(1000).map(idx => `key-${idx}`);
+  function getMapping() {
+    return new Map(
+      keys.map(key => [
+        key,
+        dispatcher._getAvailableWorker(createMetadata(key)),
+      ])
+    );
+  }
+
+  describe('_getAvailableWorker', () => {
+    it('no worker', async () => {
+      assert.ok(dispatcher._getAvailableWorker(createMetadata('foo')) == null);
+    });
+
+    it('should dispatch same key to same worker', async () => {
+      const workers = _.times(4).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+
+      const mapping = getMapping();
+      assert.deepStrictEqual(getMapping(), mapping);
+      // keys are spread to all workers.
+      assert.strictEqual(new Set(mapping.values()).size, 4);
+    });
+
+    it('should keep mapping stable as workers change', async () => {
+      const workers = _.times(5).map(() => new TestDataWorker());
+      workers.slice(0, 4).forEach(it => dispatcher.registerWorker(it));
+      const before = getMapping();
+
+      dispatcher.registerWorker(workers[4]);
+      const after = getMapping();
+      for (const key of keys) {
+        // keys are either kept or moved to the new worker.
+        if (before.get(key) !== after.get(key)) {
+          assert.strictEqual(after.get(key), workers[4]);
+        }
+      }
+
+      dispatcher.unregisterWorker(workers[4]);
+      assert.deepStrictEqual(getMapping(), before);
+
+      dispatcher.unregisterWorker(workers[0]);
+      const removed = getMapping();
+      for (const key of keys) {
+        if (before.get(key) !== workers[0]) {
+          assert.strictEqual(removed.get(key), before.get(key));
+        }
+      }
+    });
+
+    it('should skip workers whose traffic is off', async () => {
+      const workers = _.times(2).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+
+      const target = dispatcher._getAvailableWorker(
+        createMetadata('foo')
+      ) as TestDataWorker;
+      delegate.closeTraffic(target);
+      const other = workers.find(it => it !== target);
+      assert.strictEqual(
+        dispatcher._getAvailableWorker(createMetadata('foo')),
+        other
+      );
+    });
+
+    it('should fallback to least loaded worker when target is full', async () => {
+      const workers = _.times(3).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+
+      const target = dispatcher._getAvailableWorker(
+        createMetadata('foo')
+      ) as TestDataWorker;
+      target.activeRequestCount = maxActiveRequestCount;
+      const others = workers.filter(it => it !== target);
+      others[0].activeRequestCount = 2;
+      others[1].activeRequestCount = 1;
+
+      assert.strictEqual(
+        dispatcher._getAvailableWorker(createMetadata('foo')),
+        others[1]
+      );
+      // requests without key.
+      assert.strictEqual(
+        dispatcher._getAvailableWorker(createMetadata()),
+        others[1]
+      );
+    });
+  });
+
+  describe('invoke', () => {
+    it('should queue requests until worker registered', async () => {
+      delegate.maxActiveRequestCount = 1;
+      const future = dispatcher.invoke(
+        Buffer.from('ok'),
+        createMetadata('foo')
+      );
+      const future2 = dispatcher.invoke(
+        Buffer.from('ok'),
+        createMetadata('foo')
+      );
+      assert.strictEqual(delegate.pendingRequestList.length, 2);
+
+      const worker = new TestDataWorker();
+      dispatcher.registerWorker(worker);
+      assert.strictEqual(delegate.pendingRequestList.length, 1);
+
+      const resp = await future;
+      assert.strictEqual(worker.activeRequestCount, 1);
+      resp.push(null);
+      await bufferFromStream(resp);
+
+      const resp2 = await future2;
+      assert.strictEqual(delegate.pendingRequestList.length, 0);
+      resp2.push(null);
+      await bufferFromStream(resp2);
+    });
+  });
+
+  describe('invokeExcluding', () => {
+    it('should invoke least loaded worker other than excluded ones', async () => {
+      const workers = _.times(3).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+      const target = dispatcher._getAvailableWorker(createMetadata('foo'))!;
+      const others = workers.filter(it => it !== target);
+      others[0].activeRequestCount = 1;
+
+      const future = dispatcher.invokeExcluding(
+        Buffer.from('ok'),
+        createMetadata('foo'),
+        new Set([target.name])
+      );
+      assert.ok(future);
+      assert.strictEqual(others[1].activeRequestCount, 1);
+      const resp = await future;
+      resp.push(null);
+      await bufferFromStream(resp);
+
+      // Not queued if all other workers are excluded.
+      assert.strictEqual(
+        dispatcher.invokeExcluding(
+          Buffer.from('ok'),
+          createMetadata('foo'),
+          new Set(workers.map(it => it.name))
+        ),
+        undefined
+      );
+      assert.strictEqual(delegate.pendingRequestList.length, 0);
+    });
+  });
+});
@@ -142,6 +142,68 @@ describe(common.testName(__filename), () => {
     });
   });
 
+  describe('invokeExcluding', () => {
+    it('should invoke idlest worker other than excluded ones', async () => {
+      const workers = _.times(3).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+      workers[2].activeRequestCount = 1;
+
+      const future = dispatcher.invokeExcluding(
+        Buffer.from('ok'),
+        new Metadata({}),
+        new Set([workers[0].name])
+      );
+      assert.ok(future);
+      assert.strictEqual(workers[0].activeRequestCount, 0);
+      assert.strictEqual(workers[1].activeRequestCount, 1);
+      const resp = await future;
+      resp.push(null);
+      await bufferFromStream(resp);
+
+      // Not queued if all other workers are excluded.
+      assert.strictEqual(
+        dispatcher.invokeExcluding(
+          Buffer.from('ok'),
+          new Metadata({}),
+          new Set(workers.map(it => it.name))
+        ),
+        undefined
+      );
+      assert.strictEqual(delegate.pendingRequestList.length, 0);
+    });
+  });
+
+  describe('worker heap', () => {
+    it('should keep heap updated as active request count changes', async () => {
+      const workers = _.times(2).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+
+      const first = dispatcher._getAvailableWorker();
+      const respFuture = dispatcher.invoke(Buffer.from('ok'), new Metadata({}));
+      assert.strictEqual((first as TestDataWorker).activeRequestCount, 1);
+      const second = dispatcher._getAvailableWorker();
+      assert.notStrictEqual(second, first);
+
+      const resp = await respFuture;
+      resp.push(null);
+      await bufferFromStream(resp);
+      // wait for the finally callback.
+      await new Promise(resolve => setImmediate(resolve));
+      assert.strictEqual(dispatcher._workerHeap.peek()?.key, 0);
+    });
+
+    it('should sink workers whose traffic is off', async () => {
+      const workers = _.times(2).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+
+      const first = dispatcher._getAvailableWorker() as TestDataWorker;
+      delegate.closeTraffic(first);
+      const second = dispatcher._getAvailableWorker();
+      assert.ok(second != null);
+      assert.notStrictEqual(second, first);
+    });
+  });
+
   describe('register/unregister', () => {
     it('should unregister worker', async () => {
       assert.strictEqual(dispatcher._workerHeap.length, 0);
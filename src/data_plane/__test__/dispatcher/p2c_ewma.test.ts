@@ -0,0 +1,105 @@
+import { Metadata } from '#self/delegate/request_response';
+import * as common from '#self/test/common';
+import assert from 'assert';
+import { TestDataWorker, TestDispatcherDelegate } from './test-util';
+import { P2cEwmaDispatcher } from '#self/data_plane/dispatcher/p2c_ewma';
+import { bufferFromStream } from '#self/lib/util';
+import _ from 'lodash';
+
+describe(common.testName(__filename), () => {
+  let delegate: TestDispatcherDelegate;
+  let dispatcher: P2cEwmaDispatcher;
+  let randomValues: number[];
+
+  const maxActiveRequestCount = 10;
+  beforeEach(() => {
+    randomValues = [];
+    delegate = new TestDispatcherDelegate(maxActiveRequestCount);
+    dispatcher = new P2cEwmaDispatcher(delegate, {
+      random: () => randomValues.shift() ?? 0,
+    });
+  });
+
+  afterEach(() => {
+    delegate.close();
+  });
+
+  describe('_getAvailableWorker', () => {
+    it('no worker', async () => {
+      assert.ok(dispatcher._getAvailableWorker() == null);
+    });
+
+    it('1 worker', async () => {
+      const worker = new TestDataWorker();
+      dispatcher.registerWorker(worker);
+      assert.strictEqual(dispatcher._getAvailableWorker(), worker);
+
+      worker.activeRequestCount = maxActiveRequestCount;
+      assert.ok(dispatcher._getAvailableWorker() == null);
+    });
+
+    it('should choose by in-flight count and response time', async () => {
+      const workers = _.times(3).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+
+      // sample workers[0] and workers[2].
+      workers[0].activeRequestCount = 1;
+      workers[0].responseTimeEwma = 100;
+      workers[2].activeRequestCount = 3;
+      workers[2].responseTimeEwma = 10;
+      randomValues = [0, 0.9];
+      assert.strictEqual(dispatcher._getAvailableWorker(), workers[2]);
+
+      // a worker stuck with few but slow requests.
+      workers[2].responseTimeEwma = 1000;
+      randomValues = [0, 0.9];
+      assert.strictEqual(dispatcher._getAvailableWorker(), workers[0]);
+    });
+
+    it('should assume unknown response time as the other candidate', async () => {
+      const workers = _.times(2).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+
+      workers[0].activeRequestCount = 2;
+      workers[1].activeRequestCount = 1;
+      workers[1].responseTimeEwma = 100;
+      randomValues = [0, 0];
+      assert.strictEqual(dispatcher._getAvailableWorker(), workers[1]);
+    });
+
+    it('should respect traffic off and max active request count', async () => {
+      const workers = _.times(3).map(() => new TestDataWorker());
+      workers.forEach(it => dispatcher.registerWorker(it));
+
+      delegate.closeTraffic(workers[0]);
+      workers[1].activeRequestCount = maxActiveRequestCount;
+      // sampled workers[0] and workers[1] are both unavailable.
+      randomValues = [0, 0];
+      assert.strictEqual(dispatcher._getAvailableWorker(), workers[2]);
+
+      delegate.closeTraffic(workers[2]);
+      assert.ok(dispatcher._getAvailableWorker() == null);
+    });
+  });
+
+  describe('invoke', () => {
+    it('should queue requests until worker registered', async () => {
+      delegate.maxActiveRequestCount = 1;
+      const futures = _.times(2).map(() =>
+        dispatcher.invoke(Buffer.from('ok'), new Metadata({}))
+      );
+      assert.strictEqual(delegate.pendingRequestList.length, 2);
+
+      const worker = new TestDataWorker();
+      dispatcher.registerWorker(worker);
+      assert.strictEqual(delegate.pendingRequestList.length, 1);
+
+      for (const future of futures) {
+        const resp = await future;
+        resp.push(null);
+        await bufferFromStream(resp);
+      }
+      assert.strictEqual(delegate.pendingRequestList.length, 0);
+    });
+  });
+});
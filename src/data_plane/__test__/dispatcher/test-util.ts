@@ -60,6 +60,7 @@ export class TestDataWorker implements DataWorker {
   name = `test-worker-${id++}`;
   activeRequestCount = 0;
   trafficOff = false;
+  responseTimeEwma = 0;
 
   dispatcherData: unknown;
 
@@ -0,0 +1,125 @@
+import assert from 'assert';
+
+import * as common from '#self/test/common';
+import {
+  FunctionCircuitBreaker,
+  FunctionCircuitBreakerState,
+} from '#self/data_plane/function_circuit_breaker';
+
+describe(common.testName(__filename), () => {
+  let clock: common.TestClock;
+
+  beforeEach(() => {
+    clock = common.createTestClock();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  function createBreaker() {
+    return new FunctionCircuitBreaker(
+      'foo',
+      {
+        errorRatio: 0.5,
+        p99Latency: 100,
+        minSampleCount: 4,
+        slidingWindowSize: 4,
+        openDuration: 1000,
+        halfOpenProbeCount: 2,
+      },
+      clock
+    );
+  }
+
+  it('should not open before minimal sample count', () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 3; i++) {
+      assert.deepStrictEqual(breaker.tryAcquire(), { probe: false });
+      breaker.record(false, true, 10);
+    }
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.CLOSED);
+    assert.strictEqual(breaker.errorRatio, 1);
+    assert.strictEqual(breaker.sampleCount, 3);
+  });
+
+  it('should open on error ratio exceeded', () => {
+    const breaker = createBreaker();
+    const states: FunctionCircuitBreakerState[] = [];
+    breaker.on('status-changed', state => states.push(state));
+
+    breaker.record(false, false, 10);
+    breaker.record(false, true, 10);
+    breaker.record(false, false, 10);
+    breaker.record(false, true, 10);
+    // 0.5 is not exceeded.
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.CLOSED);
+
+    // sliding window drops the first sample.
+    breaker.record(false, true, 10);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.OPEN);
+    assert.strictEqual(breaker.tryAcquire(), null);
+    assert.deepStrictEqual(states, [FunctionCircuitBreakerState.OPEN]);
+  });
+
+  it('should open on p99 latency exceeded', () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 3; i++) {
+      breaker.record(false, false, 10);
+    }
+    breaker.record(false, false, 200);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.OPEN);
+  });
+
+  it('should close after probes succeeded', () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      breaker.record(false, true, 10);
+    }
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.OPEN);
+
+    clock.tick(1000);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.HALF_OPEN);
+    assert.deepStrictEqual(breaker.tryAcquire(), { probe: true });
+    assert.deepStrictEqual(breaker.tryAcquire(), { probe: true });
+    assert.strictEqual(breaker.tryAcquire(), null);
+
+    // requests passed before the breaker opened are ignored.
+    breaker.record(false, true, 10);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.HALF_OPEN);
+
+    breaker.record(true, false, 10);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.HALF_OPEN);
+    breaker.record(true, false, 10);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.CLOSED);
+    assert.strictEqual(breaker.sampleCount, 0);
+  });
+
+  it('should open again on failed probe', () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      breaker.record(false, true, 10);
+    }
+    clock.tick(1000);
+    assert.deepStrictEqual(breaker.tryAcquire(), { probe: true });
+    breaker.record(true, false, 200);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.OPEN);
+
+    clock.tick(999);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.OPEN);
+    clock.tick(1);
+    assert.strictEqual(breaker.state, FunctionCircuitBreakerState.HALF_OPEN);
+  });
+
+  it('toJSON', () => {
+    const breaker = createBreaker();
+    breaker.record(false, true, 10);
+    breaker.record(false, false, 30);
+    assert.deepStrictEqual(breaker.toJSON(), {
+      state: 'closed',
+      errorRatio: 0.5,
+      p99Latency: 30,
+      sampleCount: 2,
+    });
+  });
+});
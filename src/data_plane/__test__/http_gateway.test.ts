@@ -0,0 +1,239 @@
+import assert from 'assert';
+import { request } from 'urllib';
+import { Readable } from 'stream';
+import * as common from '#self/test/common';
+import { config, HttpGatewayConfig } from '#self/config';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { HttpGateway } from '#self/data_plane/http_gateway';
+import { SystemCircuitBreakerOpenedError } from '#self/data_plane/circuit_breaker';
+import { FunctionCircuitBreakerOpenedError } from '#self/data_plane/function_circuit_breaker';
+import { RpcError, RpcStatus } from '#self/lib/rpc/error';
+import { bufferFromStream } from '#self/lib/util';
+
+interface Invocation {
+  type: 'invoke' | 'invokeService';
+  name: string;
+  body: Buffer;
+  metadata: Metadata;
+}
+
+class TestInvoker {
+  invocations: Invocation[] = [];
+  error?: Error;
+  headers: [string, string][] = [];
+  response?: TriggerResponse;
+
+  invoke = (name: string, input: Buffer | Readable, metadata: Metadata) => {
+    return this.#invoke('invoke', name, input, metadata);
+  };
+
+  invokeService = (
+    name: string,
+    input: Buffer | Readable,
+    metadata: Metadata
+  ) => {
+    return this.#invoke('invokeService', name, input, metadata);
+  };
+
+  async #invoke(
+    type: Invocation['type'],
+    name: string,
+    input: Buffer | Readable,
+    metadata: Metadata
+  ) {
+    const body = Buffer.isBuffer(input) ? input : await bufferFromStream(input);
+    this.invocations.push({ type, name, body, metadata });
+    if (this.error) {
+      throw this.error;
+    }
+    const response = new TriggerResponse({
+      read() {},
+      status: 201,
+      metadata: {
+        headers: [
+          ['x-function', name],
+          ['set-cookie', 'a=1'],
+          ['set-cookie', 'b=2'],
+          ...this.headers,
+        ],
+      },
+    });
+    response.push(body);
+    response.push(null);
+    this.response = response;
+    return response;
+  }
+}
+
+describe(common.testName(__filename), () => {
+  let invoker: TestInvoker;
+  let gateway: HttpGateway;
+  let baseUrl: string;
+
+  async function startGateway(options: Partial<HttpGatewayConfig> = {}) {
+    gateway = new HttpGateway(invoker, {
+      ...config.dataPlane.httpGateway,
+      port: 0,
+      ...options,
+    });
+    await gateway.start();
+    baseUrl = `http://${gateway.address()}`;
+  }
+
+  beforeEach(() => {
+    invoker = new TestInvoker();
+  });
+
+  afterEach(async () => {
+    await gateway.close();
+  });
+
+  it('should invoke function by path', async () => {
+    await startGateway();
+    const res = await request(`${baseUrl}/foo/bar?q=1`, {
+      method: 'POST',
+      content: 'foobar',
+      headers: { 'x-custom': 'custom' },
+    });
+    assert.strictEqual(res.status, 201);
+    assert.strictEqual(res.data.toString(), 'foobar');
+    assert.strictEqual(res.headers['x-function'], 'foo');
+    assert.deepStrictEqual(res.headers['set-cookie'], ['a=1', 'b=2']);
+
+    assert.strictEqual(invoker.invocations.length, 1);
+    const { type, name, body, metadata } = invoker.invocations[0];
+    assert.strictEqual(type, 'invoke');
+    assert.strictEqual(name, 'foo');
+    assert.strictEqual(body.toString(), 'foobar');
+    assert.strictEqual(metadata.method, 'POST');
+    assert.strictEqual(new URL(metadata.url!).pathname, '/bar');
+    assert.strictEqual(new URL(metadata.url!).search, '?q=1');
+    assert.ok(
+      metadata.headers.some(it => it[0] === 'x-custom' && it[1] === 'custom')
+    );
+  });
+
+  it('should route by host and path rules', async () => {
+    await startGateway({
+      routes: [
+        { host: 'api.example.com', pathPrefix: '/v1/', serviceName: 'api' },
+        { pathPrefix: '/static/', functionName: 'static' },
+      ],
+    });
+    await request(`${baseUrl}/v1/users`, {
+      headers: { host: 'api.example.com' },
+    });
+    await request(`${baseUrl}/static/index.html`);
+    await request(`${baseUrl}/v1/users`);
+
+    assert.deepStrictEqual(
+      invoker.invocations.map(it => [it.type, it.name]),
+      [
+        ['invokeService', 'api'],
+        ['invoke', 'static'],
+        ['invoke', 'v1'],
+      ]
+    );
+    // urls are passed unchanged with routing rules.
+    assert.strictEqual(
+      invoker.invocations[0].metadata.url,
+      'http://api.example.com/v1/users'
+    );
+  });
+
+  it('should generate request id if not present', async () => {
+    await startGateway();
+    let res = await request(`${baseUrl}/foo`);
+    const requestId = res.headers['x-noslated-request-id'] as string;
+    assert.ok(requestId);
+    assert.strictEqual(invoker.invocations[0].metadata.requestId, requestId);
+
+    res = await request(`${baseUrl}/foo`, {
+      headers: { 'x-noslated-request-id': 'my-request' },
+    });
+    assert.strictEqual(res.headers['x-noslated-request-id'], 'my-request');
+    assert.strictEqual(invoker.invocations[1].metadata.requestId, 'my-request');
+  });
+
+  it('should apply request timeout', async () => {
+    await startGateway({ requestTimeout: 1000 });
+    const now = Date.now();
+    await request(`${baseUrl}/foo`);
+    const { deadline } = invoker.invocations[0].metadata;
+    assert.ok(deadline >= now + 1000 && deadline <= Date.now() + 1000);
+  });
+
+  it('should map errors to http status', async () => {
+    await startGateway();
+    let res = await request(`${baseUrl}/`);
+    assert.strictEqual(res.status, 404);
+    assert.strictEqual(invoker.invocations.length, 0);
+
+    invoker.error = new RpcError('Request queue of foo is full', {
+      code: RpcStatus.RESOURCE_EXHAUSTED,
+    });
+    res = await request(`${baseUrl}/foo`);
+    assert.strictEqual(res.status, 429);
+    assert.strictEqual(res.data.toString(), 'Request queue of foo is full');
+
+    invoker.error = new Error('foobar');
+    res = await request(`${baseUrl}/foo`);
+    assert.strictEqual(res.status, 500);
+  });
+
+  it('should tell apart circuit breaker rejections', async () => {
+    await startGateway();
+    invoker.error = new FunctionCircuitBreakerOpenedError(
+      'Function circuit breaker opened.',
+      { code: RpcStatus.FAILED_PRECONDITION }
+    );
+    let res = await request(`${baseUrl}/foo`);
+    assert.strictEqual(res.status, 503);
+    assert.strictEqual(
+      res.headers['x-noslated-error'],
+      'FunctionCircuitBreakerOpenedError'
+    );
+
+    invoker.error = new SystemCircuitBreakerOpenedError(
+      'System circuit breaker opened.',
+      { code: RpcStatus.FAILED_PRECONDITION }
+    );
+    res = await request(`${baseUrl}/foo`);
+    assert.strictEqual(res.status, 503);
+    assert.strictEqual(
+      res.headers['x-noslated-error'],
+      'SystemCircuitBreakerOpenedError'
+    );
+
+    invoker.error = new RpcError('foobar', { code: RpcStatus.UNAVAILABLE });
+    res = await request(`${baseUrl}/foo`);
+    assert.strictEqual(res.status, 503);
+    assert.strictEqual(res.headers['x-noslated-error'], undefined);
+  });
+
+  it('should drop hop-by-hop response headers', async () => {
+    await startGateway();
+    invoker.headers = [
+      ['connection', 'x-hop'],
+      ['keep-alive', 'timeout=42'],
+      ['transfer-encoding', 'chunked'],
+      ['x-hop', 'foo'],
+      ['x-end-to-end', 'bar'],
+    ];
+    const res = await request(`${baseUrl}/foo`);
+    assert.strictEqual(res.status, 201);
+    assert.strictEqual(res.headers['x-hop'], undefined);
+    assert.notStrictEqual(res.headers['keep-alive'], 'timeout=42');
+    assert.strictEqual(res.headers['x-end-to-end'], 'bar');
+  });
+
+  it('should reject invalid response headers', async () => {
+    await startGateway();
+    invoker.headers = [['x-invalid', 'foo\nbar']];
+    const res = await request(`${baseUrl}/foo`);
+    assert.strictEqual(res.status, 500);
+    assert.strictEqual(res.data.toString(), 'Invalid response headers.');
+    assert.strictEqual(res.headers['x-function'], undefined);
+    assert.ok(invoker.response?.destroyed);
+  });
+});
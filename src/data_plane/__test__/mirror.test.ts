@@ -0,0 +1,58 @@
+import assert from 'assert';
+import { Readable } from 'stream';
+import * as common from '#self/test/common';
+import { teeMirrorInput } from '#self/data_plane/mirror';
+import { bufferFromStream } from '#self/lib/util';
+
+describe(common.testName(__filename), () => {
+  function createSource() {
+    return new Readable({
+      read() {},
+    });
+  }
+
+  it('should share buffered body', () => {
+    const body = Buffer.from('foo');
+    const { primary, shadow } = teeMirrorInput(body);
+    assert.strictEqual(primary, body);
+    assert.strictEqual(shadow, body);
+  });
+
+  it('should tee streamed body', async () => {
+    const source = createSource();
+    const { primary, shadow } = teeMirrorInput(source);
+    source.push('foo');
+    source.push('bar');
+    source.push(null);
+
+    const [primaryBody, shadowBody] = await Promise.all([
+      bufferFromStream(primary as Readable),
+      bufferFromStream(shadow as Readable),
+    ]);
+    assert.strictEqual(primaryBody.toString(), 'foobar');
+    assert.strictEqual(shadowBody.toString(), 'foobar');
+  });
+
+  it('should not block primary if shadow is not consumed', async () => {
+    const source = createSource();
+    const { primary, shadow } = teeMirrorInput(source, 4);
+    source.push('foo');
+    source.push('bar');
+    source.push(null);
+
+    assert.strictEqual(
+      (await bufferFromStream(primary as Readable)).toString(),
+      'foobar'
+    );
+    assert.ok((shadow as Readable).destroyed);
+  });
+
+  it('should error both branches on source error', async () => {
+    const source = createSource();
+    const { primary, shadow } = teeMirrorInput(source);
+    source.destroy(new Error('foobar'));
+
+    await assert.rejects(bufferFromStream(primary as Readable), /foobar/);
+    await assert.rejects(bufferFromStream(shadow as Readable), /foobar/);
+  });
+});
@@ -0,0 +1,109 @@
+import assert from 'assert';
+import { Readable } from 'stream';
+import * as common from '#self/test/common';
+import {
+  meterRequestBody,
+  raceRequestBody,
+} from '#self/data_plane/payload_limit';
+import { RpcStatus } from '#self/lib/rpc/error';
+import { bufferFromStream, createDeferred } from '#self/lib/util';
+
+describe(common.testName(__filename), () => {
+  function createSource() {
+    return new Readable({
+      read() {},
+    });
+  }
+
+  describe('meterRequestBody', () => {
+    it('should check buffered body', () => {
+      const body = Buffer.from('foo');
+      const metered = meterRequestBody(body, 3);
+      assert.strictEqual(metered.body, body);
+      assert.strictEqual(metered.byteLength, 3);
+      assert.throws(() => meterRequestBody(Buffer.from('foobar'), 3), {
+        code: RpcStatus.RESOURCE_EXHAUSTED,
+        message: /Request body exceeds the limit of 3 bytes/,
+      });
+    });
+
+    it('should pass streamed body within limit', async () => {
+      const source = createSource();
+      const metered = meterRequestBody(source, 6);
+      source.push('foo');
+      source.push('bar');
+      source.push(null);
+      assert.strictEqual(
+        (await bufferFromStream(metered.body as Readable)).toString(),
+        'foobar'
+      );
+      assert.strictEqual(metered.byteLength, 6);
+    });
+
+    it('should error streamed body exceeding limit', async () => {
+      const source = createSource();
+      const metered = meterRequestBody(source, 4);
+      source.push('foo');
+      source.push('bar');
+      await assert.rejects(bufferFromStream(metered.body as Readable), {
+        code: RpcStatus.RESOURCE_EXHAUSTED,
+        message: /Request body exceeds the limit of 4 bytes/,
+      });
+      // stop buffering the rest.
+      assert.ok(source.destroyed);
+    });
+
+    it('should not read source until metered body is read', async () => {
+      const source = createSource();
+      source.push('foo');
+      source.push(null);
+      // e.g. the previous invocation failed before reaching a worker.
+      meterRequestBody(source, 6);
+      await new Promise(resolve => setImmediate(resolve));
+      assert.ok(!source.readableDidRead);
+
+      const metered = meterRequestBody(source, 6);
+      assert.strictEqual(
+        (await bufferFromStream(metered.body as Readable)).toString(),
+        'foo'
+      );
+      assert.strictEqual(metered.byteLength, 3);
+    });
+
+    it('should count streamed body without limit', async () => {
+      const source = createSource();
+      const metered = meterRequestBody(source);
+      source.push('foo');
+      source.push('bar');
+      source.push(null);
+      await bufferFromStream(metered.body as Readable);
+      assert.strictEqual(metered.byteLength, 6);
+    });
+  });
+
+  describe('raceRequestBody', () => {
+    it('should reject with body error before response', async () => {
+      const body = createSource();
+      const deferred = createDeferred<{ response: Readable }>();
+      const future = raceRequestBody(deferred.promise, body);
+
+      body.destroy(new Error('foobar'));
+      await assert.rejects(future, /foobar/);
+
+      const response = createSource();
+      deferred.resolve({ response });
+      await new Promise(resolve => setImmediate(resolve));
+      assert.ok(response.destroyed);
+    });
+
+    it('should abort response with body error', async () => {
+      const body = createSource();
+      const response = createSource();
+      const result = await raceRequestBody(Promise.resolve({ response }), body);
+      assert.strictEqual(result.response, response);
+
+      body.destroy(new Error('foobar'));
+      await assert.rejects(bufferFromStream(response), /foobar/);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import assert from 'assert';
+import sinon from 'sinon';
+import { Validator } from 'jsonschema';
+import * as common from '#self/test/common';
+import { config } from '#self/config';
+import { Metadata } from '#self/delegate/request_response';
+import {
+  RequestLogger,
+  TriggerErrorStatus,
+} from '#self/data_plane/request_logger';
+import { RpcError, RpcStatus } from '#self/lib/rpc/error';
+import { Loggers } from '#self/lib/loggers';
+import kRequestLogSchema from '../../lib/json/request_log_schema.json';
+
+describe(common.testName(__filename), () => {
+  const validator = new Validator();
+  const metadata = new Metadata({
+    method: 'POST',
+    url: 'http://localhost/foo',
+    requestId: 'foo-request',
+  });
+  const timing = { queueing: 1, ttfb: 2, rt: 3 };
+
+  let accessWrite: sinon.SinonStub;
+  let errorWrite: sinon.SinonStub;
+
+  function createLogger(accessLogFormat: 'text' | 'json') {
+    // Avoid opening log files.
+    sinon
+      .stub(Loggers, 'getPrettySink')
+      .callsFake(() => ({ write: sinon.stub() } as any));
+    const logger = new RequestLogger({
+      ...config,
+      logger: { ...config.logger, accessLogFormat },
+    });
+    accessWrite = logger.accessLogger.write as sinon.SinonStub;
+    errorWrite = logger.errorLogger.write as sinon.SinonStub;
+    return logger;
+  }
+
+  function validate(record: unknown, definition: 'access' | 'error') {
+    const result = validator.validate(record, {
+      ...kRequestLogSchema,
+      $ref: `#/definitions/${definition}`,
+    } as any);
+    assert.deepStrictEqual(result.errors, []);
+  }
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('should write access log in text format', () => {
+    const logger = createLogger('text');
+    logger.access('svc:foo', 'worker', metadata, '200', timing, 6, {
+      serviceName: 'svc',
+      functionName: 'foo',
+      bytesReceived: 3,
+      cacheHit: true,
+    });
+    const line: string = accessWrite.firstCall.args[0];
+    assert.match(
+      line,
+      / foo-request \d+ svc:foo worker POST http:\/\/localhost\/foo true 2 1 3 200 6$/
+    );
+  });
+
+  it('should write access log in json format', () => {
+    const logger = createLogger('json');
+    logger.access('svc:foo', 'worker', metadata, '200', timing, 6, {
+      serviceName: 'svc',
+      functionName: 'foo',
+      bytesReceived: 3,
+      coldStart: true,
+    });
+    const record = JSON.parse(accessWrite.firstCall.args[0]);
+    validate(record, 'access');
+    assert.deepStrictEqual(
+      { ...record, timestamp: undefined },
+      {
+        timestamp: undefined,
+        requestId: 'foo-request',
+        pid: process.pid,
+        invokeName: 'svc:foo',
+        serviceName: 'svc',
+        functionName: 'foo',
+        workerName: 'worker',
+        method: 'POST',
+        url: 'http://localhost/foo',
+        success: true,
+        statusCode: 200,
+        queueing: 1,
+        ttfb: 2,
+        rt: 3,
+        bytesReceived: 3,
+        bytesSent: 6,
+        coldStart: true,
+        cacheHit: false,
+        mirror: false,
+      }
+    );
+  });
+
+  it('should classify errors in json format', () => {
+    const logger = createLogger('json');
+    const error = new RpcError('Response body exceeds the limit of 4 bytes.', {
+      code: RpcStatus.RESOURCE_EXHAUSTED,
+    });
+    logger.error('foo', 'worker', error, 'foo-request');
+    logger.access(
+      'foo',
+      'worker',
+      metadata,
+      String(TriggerErrorStatus.PAYLOAD_TOO_LARGE),
+      timing,
+      5,
+      { error }
+    );
+
+    const record = JSON.parse(accessWrite.firstCall.args[0]);
+    validate(record, 'access');
+    assert.strictEqual(record.success, false);
+    assert.strictEqual(record.statusCode, -3);
+    assert.strictEqual(record.errorType, 'payload_too_large');
+    assert.strictEqual(record.errorCode, 'RESOURCE_EXHAUSTED');
+    assert.strictEqual(record.errorMessage, error.message);
+
+    const errorRecord = JSON.parse(errorWrite.firstCall.args[0]);
+    validate(errorRecord, 'error');
+    assert.strictEqual(errorRecord.requestId, 'foo-request');
+    assert.strictEqual(errorRecord.invokeName, 'foo');
+    assert.strictEqual(errorRecord.errorName, 'Error');
+    assert.strictEqual(errorRecord.errorCode, 'RESOURCE_EXHAUSTED');
+    assert.strictEqual(errorRecord.stack, error.stack);
+  });
+});
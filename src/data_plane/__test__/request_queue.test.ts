@@ -0,0 +1,151 @@
+import assert from 'assert';
+
+import * as common from '#self/test/common';
+import { Metadata } from '#self/delegate/request_response';
+import { PendingRequest } from '#self/data_plane/worker_broker';
+import {
+  FifoRequestQueue,
+  PriorityRequestQueue,
+  parseRequestPriority,
+} from '#self/data_plane/request_queue';
+import { Priority } from '#self/lib/priority_task_queue';
+
+describe(common.testName(__filename), () => {
+  let requests: PendingRequest[] = [];
+
+  function createRequest(priority: number, startEpoch = Date.now()) {
+    const request = new PendingRequest(
+      Buffer.from(''),
+      new Metadata({ requestId: `${requests.length}` }),
+      Date.now() + 10_000,
+      priority
+    );
+    request.startEpoch = startEpoch;
+    requests.push(request);
+    return request;
+  }
+
+  afterEach(() => {
+    requests.forEach(it => it.stopTimer());
+    requests = [];
+  });
+
+  describe('FifoRequestQueue', () => {
+    it('should shift requests in order', () => {
+      const queue = new FifoRequestQueue();
+      const [a, b, c] = [
+        createRequest(Priority.kLow),
+        createRequest(Priority.kHigh),
+        createRequest(Priority.kNormal),
+      ];
+      [a, b, c].forEach(it => queue.push(it));
+      assert.strictEqual(queue.length, 3);
+
+      queue.remove(b);
+      assert.strictEqual(queue.length, 2);
+      assert.deepStrictEqual(Array.from(queue.values()), [a, c]);
+
+      assert.strictEqual(queue.shift(), a);
+      assert.strictEqual(queue.shift(), c);
+      assert.strictEqual(queue.shift(), undefined);
+      assert.strictEqual(queue.length, 0);
+    });
+  });
+
+  describe('FifoRequestQueue with adaptive LIFO', () => {
+    it('should shift newest requests first when overloaded', () => {
+      const queue = new FifoRequestQueue(1000);
+      const now = Date.now();
+      const [a, b, c] = [
+        createRequest(Priority.kNormal, now - 2000),
+        createRequest(Priority.kNormal, now - 500),
+        createRequest(Priority.kNormal, now),
+      ];
+      [a, b, c].forEach(it => queue.push(it));
+      assert.ok(queue.overloaded);
+
+      assert.strictEqual(queue.shift(), c);
+      assert.strictEqual(queue.shift(), b);
+      assert.strictEqual(queue.shift(), a);
+      assert.strictEqual(queue.shift(), undefined);
+    });
+
+    it('should shift in order when not overloaded', () => {
+      const queue = new FifoRequestQueue(1000);
+      const now = Date.now();
+      const [a, b] = [
+        createRequest(Priority.kNormal, now - 500),
+        createRequest(Priority.kNormal, now),
+      ];
+      [a, b].forEach(it => queue.push(it));
+      assert.ok(!queue.overloaded);
+
+      assert.strictEqual(queue.shift(), a);
+      assert.strictEqual(queue.shift(), b);
+    });
+  });
+
+  describe('PriorityRequestQueue', () => {
+    it('should shift requests with highest priority first', () => {
+      const queue = new PriorityRequestQueue(1000);
+      const now = Date.now();
+      const [a, b, c, d] = [
+        createRequest(Priority.kLow, now),
+        createRequest(Priority.kHigh, now),
+        createRequest(Priority.kNormal, now),
+        createRequest(Priority.kHigh, now),
+      ];
+      [a, b, c, d].forEach(it => queue.push(it));
+
+      assert.strictEqual(queue.shift(), b);
+      assert.strictEqual(queue.shift(), d);
+      assert.strictEqual(queue.shift(), c);
+      assert.strictEqual(queue.shift(), a);
+      assert.strictEqual(queue.shift(), undefined);
+    });
+
+    it('should age queued requests', () => {
+      const queue = new PriorityRequestQueue(1000);
+      const now = Date.now();
+      // low priority request that has waited for 3 aging intervals.
+      const a = createRequest(Priority.kLow, now - 3000);
+      const b = createRequest(Priority.kHigh, now);
+      const c = createRequest(Priority.kNormal, now - 500);
+      [b, c, a].forEach(it => queue.push(it));
+
+      assert.strictEqual(queue.shift(), a);
+      assert.strictEqual(queue.shift(), b);
+      assert.strictEqual(queue.shift(), c);
+    });
+
+    it('should remove requests', () => {
+      const queue = new PriorityRequestQueue(1000);
+      const [a, b] = [
+        createRequest(Priority.kLow),
+        createRequest(Priority.kHigh),
+      ];
+      [a, b].forEach(it => queue.push(it));
+
+      queue.remove(b);
+      // no-op
+      queue.remove(b);
+      assert.strictEqual(queue.length, 1);
+      assert.deepStrictEqual(Array.from(queue.values()), [a]);
+      assert.strictEqual(queue.shift(), a);
+      assert.strictEqual(queue.shift(), undefined);
+      assert.strictEqual(queue.length, 0);
+    });
+  });
+
+  describe('parseRequestPriority', () => {
+    it('should parse priority', () => {
+      assert.strictEqual(parseRequestPriority(undefined), Priority.kNormal);
+      assert.strictEqual(parseRequestPriority('HIGH'), Priority.kHigh);
+      assert.strictEqual(parseRequestPriority('low'), Priority.kLow);
+      assert.strictEqual(parseRequestPriority('2'), Priority.kNormal);
+      assert.strictEqual(parseRequestPriority('999999'), Priority.kHigh);
+      assert.strictEqual(parseRequestPriority('-10'), Priority.kLow);
+      assert.strictEqual(parseRequestPriority('foo'), Priority.kNormal);
+    });
+  });
+});
@@ -0,0 +1,428 @@
+import assert from 'assert';
+import * as common from '#self/test/common';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { ResponseCache } from '#self/data_plane/response_cache';
+import { bufferFromStream, createDeferred } from '#self/lib/util';
+import { RpcStatus } from '#self/lib/rpc/error';
+
+interface TestResponseInit {
+  status?: number;
+  headers?: [string, string][];
+  body?: string;
+}
+
+describe(common.testName(__filename), () => {
+  let invocations: Metadata[];
+
+  function invokeWith(init: TestResponseInit) {
+    return async (metadata: Metadata) => {
+      invocations.push(metadata);
+      return createResponse(init);
+    };
+  }
+
+  function createResponse(init: TestResponseInit) {
+    const response = new TriggerResponse({
+      read() {},
+      status: init.status ?? 200,
+      metadata: { headers: init.headers ?? [] },
+    });
+    response.push(Buffer.from(init.body ?? ''));
+    response.push(null);
+    return response;
+  }
+
+  function createMetadata(
+    url = '/foo',
+    method = 'GET',
+    headers: [string, string][] = []
+  ) {
+    return new Metadata({ url, method, headers });
+  }
+
+  async function readBody(response: TriggerResponse) {
+    return (await bufferFromStream(response)).toString();
+  }
+
+  beforeEach(() => {
+    invocations = [];
+  });
+
+  it('should cache fresh responses', async () => {
+    const cache = new ResponseCache({});
+    const invoke = invokeWith({
+      headers: [['cache-control', 'max-age=60']],
+      body: 'foo',
+    });
+
+    let result = await cache.fetch(createMetadata(), invoke);
+    assert.strictEqual(result.status, 'miss');
+    assert.strictEqual(await readBody(result.response), 'foo');
+
+    result = await cache.fetch(createMetadata(), invoke);
+    assert.strictEqual(result.status, 'hit');
+    assert.strictEqual(result.response.status, 200);
+    assert.strictEqual(await readBody(result.response), 'foo');
+    assert.deepStrictEqual(result.response.metadata.headers, [
+      ['cache-control', 'max-age=60'],
+      ['age', '0'],
+    ]);
+    assert.strictEqual(invocations.length, 1);
+
+    // different urls are cached separately.
+    result = await cache.fetch(createMetadata('/bar'), invoke);
+    assert.strictEqual(result.status, 'miss');
+    await readBody(result.response);
+    assert.strictEqual(cache.size, 2);
+  });
+
+  it('should bypass non cacheable requests', async () => {
+    const cache = new ResponseCache({});
+    const invoke = invokeWith({
+      headers: [['cache-control', 'max-age=60']],
+      body: 'foo',
+    });
+
+    for (const metadata of [
+      createMetadata('/foo', 'POST'),
+      createMetadata('/foo', 'GET', [['cache-control', 'no-store']]),
+    ]) {
+      const result = await cache.fetch(metadata, invoke);
+      assert.strictEqual(result.status, 'bypass');
+      assert.strictEqual(await readBody(result.response), 'foo');
+    }
+    assert.strictEqual(cache.size, 0);
+  });
+
+  it('should not store non cacheable responses', async () => {
+    const cache = new ResponseCache({});
+    for (const init of [
+      { headers: [] },
+      { headers: [['cache-control', 'no-store, max-age=60']] },
+      { headers: [['cache-control', 'private, max-age=60']] },
+      { status: 500, headers: [['cache-control', 'max-age=60']] },
+      {
+        headers: [
+          ['cache-control', 'max-age=60'],
+          ['set-cookie', 'foo=bar'],
+        ],
+      },
+    ] as TestResponseInit[]) {
+      const result = await cache.fetch(createMetadata(), invokeWith(init));
+      assert.strictEqual(result.status, 'miss');
+      await readBody(result.response);
+    }
+    assert.strictEqual(cache.size, 0);
+  });
+
+  it('should not store responses exceeding max entry bytes', async () => {
+    const cache = new ResponseCache({ maxEntryBytes: 4 });
+    const invoke = invokeWith({
+      headers: [['cache-control', 'max-age=60']],
+      body: 'foobar',
+    });
+    const result = await cache.fetch(createMetadata(), invoke);
+    assert.strictEqual(await readBody(result.response), 'foobar');
+    assert.strictEqual(cache.size, 0);
+  });
+
+  it('should evict least recently used entries', async () => {
+    const cache = new ResponseCache({ maxBytes: 8 });
+    const invoke = invokeWith({
+      headers: [['cache-control', 'max-age=60']],
+      body: 'foo',
+    });
+    for (const url of ['/a', '/b', '/a', '/c']) {
+      const result = await cache.fetch(createMetadata(url), invoke);
+      await readBody(result.response);
+    }
+    assert.strictEqual(cache.size, 2);
+    assert.deepStrictEqual(
+      invocations.map(it => it.url),
+      ['/a', '/b', '/c']
+    );
+
+    const result = await cache.fetch(createMetadata('/b'), invoke);
+    assert.strictEqual(result.status, 'miss');
+    await readBody(result.response);
+  });
+
+  it('should coalesce concurrent misses', async () => {
+    const cache = new ResponseCache({});
+    const deferred = createDeferred<TriggerResponse>();
+    const invoke = async (metadata: Metadata) => {
+      invocations.push(metadata);
+      return deferred.promise;
+    };
+
+    const futures = [1, 2, 3].map(() => cache.fetch(createMetadata(), invoke));
+    deferred.resolve(
+      createResponse({
+        headers: [['cache-control', 'max-age=60']],
+        body: 'foo',
+      })
+    );
+    const results = await Promise.all(futures);
+    assert.deepStrictEqual(
+      results.map(it => it.status),
+      ['miss', 'hit', 'hit']
+    );
+    for (const result of results) {
+      assert.strictEqual(await readBody(result.response), 'foo');
+    }
+    assert.strictEqual(invocations.length, 1);
+  });
+
+  it('should stop waiting for coalesced requests on deadline or abort', async () => {
+    const cache = new ResponseCache({});
+    const deferred = createDeferred<TriggerResponse>();
+    const invoke = async (metadata: Metadata) => {
+      invocations.push(metadata);
+      return deferred.promise;
+    };
+
+    const future = cache.fetch(createMetadata(), invoke);
+    await assert.rejects(
+      cache.fetch(
+        new Metadata({ url: '/foo', method: 'GET', timeout: 10 }),
+        invoke
+      ),
+      { code: RpcStatus.DEADLINE_EXCEEDED }
+    );
+
+    const abortController = new AbortController();
+    const aborted = cache.fetch(
+      new Metadata({
+        url: '/foo',
+        method: 'GET',
+        signal: abortController.signal,
+      }),
+      invoke
+    );
+    abortController.abort();
+    await assert.rejects(aborted, { code: RpcStatus.CANCELLED });
+
+    deferred.resolve(
+      createResponse({
+        headers: [['cache-control', 'max-age=60']],
+        body: 'foo',
+      })
+    );
+    const result = await future;
+    assert.strictEqual(await readBody(result.response), 'foo');
+    assert.strictEqual(invocations.length, 1);
+  });
+
+  it('should not block coalesced requests by the pace of the caller', async () => {
+    const cache = new ResponseCache({});
+    const response = new TriggerResponse({
+      read() {},
+      status: 200,
+      metadata: { headers: [['cache-control', 'max-age=60']] },
+    });
+    const chunk = Buffer.alloc(64 * 1024, 'a');
+    for (let idx = 0; idx < 8; idx++) {
+      response.push(chunk);
+    }
+    response.push(null);
+    const deferred = createDeferred<TriggerResponse>();
+    const invoke = async () => deferred.promise;
+
+    const future = cache.fetch(createMetadata(), invoke);
+    const coalesced = cache.fetch(createMetadata(), invoke);
+    deferred.resolve(response);
+    // The first caller has not read the response yet.
+    const first = await future;
+    const result = await coalesced;
+    assert.strictEqual(result.status, 'hit');
+    assert.strictEqual(
+      (await bufferFromStream(result.response)).length,
+      8 * chunk.length
+    );
+    assert.strictEqual(
+      (await bufferFromStream(first.response)).length,
+      8 * chunk.length
+    );
+  });
+
+  it('should invoke coalesced requests if response is not stored', async () => {
+    const cache = new ResponseCache({});
+    const invoke = invokeWith({ body: 'foo' });
+    const results = await Promise.all(
+      [1, 2].map(() => cache.fetch(createMetadata(), invoke))
+    );
+    assert.deepStrictEqual(
+      results.map(it => it.status),
+      ['miss', 'miss']
+    );
+    assert.strictEqual(invocations.length, 2);
+  });
+
+  it('should revalidate stale responses with etag', async () => {
+    const cache = new ResponseCache({});
+    let result = await cache.fetch(
+      createMetadata('/foo', 'GET', [['if-none-match', '"foo"']]),
+      invokeWith({
+        headers: [
+          ['cache-control', 'no-cache'],
+          ['etag', '"v1"'],
+        ],
+        body: 'foo',
+      })
+    );
+    assert.strictEqual(result.status, 'miss');
+    assert.strictEqual(await readBody(result.response), 'foo');
+    // conditions of the caller are not forwarded.
+    assert.ok(!invocations[0].headers.some(it => it[0] === 'if-none-match'));
+
+    result = await cache.fetch(
+      createMetadata(),
+      invokeWith({ status: 304, headers: [['cache-control', 'max-age=60']] })
+    );
+    assert.strictEqual(result.status, 'hit');
+    assert.strictEqual(result.response.status, 200);
+    assert.strictEqual(await readBody(result.response), 'foo');
+    assert.deepStrictEqual(
+      invocations[1].headers.find(it => it[0] === 'if-none-match'),
+      ['if-none-match', '"v1"']
+    );
+
+    // fresh now.
+    result = await cache.fetch(createMetadata(), invokeWith({}));
+    assert.strictEqual(result.status, 'hit');
+    assert.strictEqual(invocations.length, 2);
+  });
+
+  it('should respond not modified if etag matches', async () => {
+    const cache = new ResponseCache({});
+    const invoke = invokeWith({
+      headers: [
+        ['cache-control', 'max-age=60'],
+        ['etag', 'W/"v1"'],
+      ],
+      body: 'foo',
+    });
+    let result = await cache.fetch(createMetadata(), invoke);
+    await readBody(result.response);
+
+    result = await cache.fetch(
+      createMetadata('/foo', 'GET', [['if-none-match', '"v0", "v1"']]),
+      invoke
+    );
+    assert.strictEqual(result.status, 'hit');
+    assert.strictEqual(result.response.status, 304);
+    assert.strictEqual(await readBody(result.response), '');
+
+    // request no-cache forces revalidation.
+    result = await cache.fetch(
+      createMetadata('/foo', 'GET', [['cache-control', 'no-cache']]),
+      invoke
+    );
+    assert.strictEqual(result.status, 'miss');
+    await readBody(result.response);
+    assert.strictEqual(invocations.length, 2);
+  });
+
+  it('should not share responses of authorized requests', async () => {
+    const cache = new ResponseCache({});
+    const authorized = () =>
+      createMetadata('/foo', 'GET', [['authorization', 'Bearer foo']]);
+    const invoke = invokeWith({
+      headers: [['cache-control', 'max-age=60']],
+      body: 'foo',
+    });
+
+    let result = await cache.fetch(authorized(), invoke);
+    assert.strictEqual(result.status, 'miss');
+    await readBody(result.response);
+    assert.strictEqual(cache.size, 0);
+
+    // anonymous entries are not served to authorized requests.
+    result = await cache.fetch(createMetadata(), invoke);
+    await readBody(result.response);
+    assert.strictEqual(cache.size, 1);
+    result = await cache.fetch(authorized(), invoke);
+    assert.strictEqual(result.status, 'miss');
+    await readBody(result.response);
+    assert.strictEqual(invocations.length, 3);
+    // and not invalidated by them.
+    result = await cache.fetch(createMetadata(), invoke);
+    assert.strictEqual(result.status, 'hit');
+    await readBody(result.response);
+  });
+
+  it('should share responses of authorized requests if public', async () => {
+    const cache = new ResponseCache({});
+    const authorized = () =>
+      createMetadata('/foo', 'GET', [['authorization', 'Bearer foo']]);
+    for (const directives of ['public, max-age=60', 's-maxage=60']) {
+      const invoke = invokeWith({
+        headers: [['cache-control', directives]],
+        body: 'foo',
+      });
+      let result = await cache.fetch(authorized(), invoke);
+      assert.strictEqual(result.status, 'miss');
+      await readBody(result.response);
+
+      result = await cache.fetch(authorized(), invoke);
+      assert.strictEqual(result.status, 'hit');
+      assert.strictEqual(await readBody(result.response), 'foo');
+      result = await cache.fetch(createMetadata(), invoke);
+      assert.strictEqual(result.status, 'hit');
+      await readBody(result.response);
+
+      cache['_entries'].clear();
+    }
+  });
+
+  it('should not store responses varying on all headers', async () => {
+    const cache = new ResponseCache({});
+    const result = await cache.fetch(
+      createMetadata(),
+      invokeWith({
+        headers: [
+          ['cache-control', 'max-age=60'],
+          ['vary', '*'],
+        ],
+      })
+    );
+    await readBody(result.response);
+    assert.strictEqual(cache.size, 0);
+  });
+
+  it('should cache responses by vary headers', async () => {
+    const cache = new ResponseCache({});
+    const invoke = async (metadata: Metadata) => {
+      invocations.push(metadata);
+      const language = metadata.headers.find(
+        it => it[0] === 'accept-language'
+      )?.[1];
+      return createResponse({
+        headers: [
+          ['cache-control', 'max-age=60'],
+          ['vary', 'Accept-Language'],
+        ],
+        body: language ?? 'default',
+      });
+    };
+    const fetch = async (language?: string) => {
+      const result = await cache.fetch(
+        createMetadata(
+          '/foo',
+          'GET',
+          language ? [['accept-language', language]] : []
+        ),
+        invoke
+      );
+      return [result.status, await readBody(result.response)];
+    };
+
+    assert.deepStrictEqual(await fetch('en'), ['miss', 'en']);
+    assert.deepStrictEqual(await fetch('zh'), ['miss', 'zh']);
+    assert.deepStrictEqual(await fetch(), ['miss', 'default']);
+    assert.deepStrictEqual(await fetch('en'), ['hit', 'en']);
+    assert.deepStrictEqual(await fetch('zh'), ['hit', 'zh']);
+    assert.deepStrictEqual(await fetch(), ['hit', 'default']);
+    assert.strictEqual(invocations.length, 3);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'assert';
+import { Readable } from 'stream';
+
+import * as common from '#self/test/common';
+import { Metadata } from '#self/delegate/request_response';
+import { RetryPolicy, isReplayable } from '#self/data_plane/retry_policy';
+
+describe(common.testName(__filename), () => {
+  function createError(name: string) {
+    const error = new Error(name);
+    error.name = name;
+    return error;
+  }
+
+  describe('RetryPolicy', () => {
+    it('should retry with defaults', () => {
+      const policy = new RetryPolicy({});
+      const metadata = new Metadata({});
+      const error = createError('PEER_CONNECTION_CLOSED');
+
+      assert.strictEqual(policy.maxAttempts, 2);
+      assert.ok(policy.shouldRetry(error, Buffer.from(''), metadata, 1));
+      assert.ok(!policy.shouldRetry(error, Buffer.from(''), metadata, 2));
+      assert.ok(
+        !policy.shouldRetry(createError('Error'), Buffer.from(''), metadata, 1)
+      );
+      assert.ok(
+        !policy.shouldRetry(
+          error,
+          Buffer.from(''),
+          new Metadata({ method: 'POST' }),
+          1
+        )
+      );
+    });
+
+    it('should match error codes', () => {
+      const policy = new RetryPolicy({
+        maxAttempts: 3,
+        errorCodes: ['CONNECTION_RESET', 'ECONNRESET'],
+        methods: ['post'],
+      });
+      const metadata = new Metadata({ method: 'POST' });
+
+      const noslatedError = Object.assign(createError('NoslatedError'), {
+        codeName: 'CONNECTION_RESET',
+      });
+      assert.ok(
+        policy.shouldRetry(noslatedError, Buffer.from(''), metadata, 2)
+      );
+      const sysError = Object.assign(new Error(), { code: 'ECONNRESET' });
+      assert.ok(policy.shouldRetry(sysError, Buffer.from(''), metadata, 1));
+      assert.ok(
+        !policy.shouldRetry(
+          createError('PEER_CONNECTION_CLOSED'),
+          Buffer.from(''),
+          metadata,
+          1
+        )
+      );
+      assert.ok(!policy.shouldRetry(undefined, Buffer.from(''), metadata, 1));
+    });
+
+    it('should not retry after deadline', () => {
+      const policy = new RetryPolicy({});
+      const metadata = new Metadata({ deadline: Date.now() - 1 });
+      assert.ok(
+        !policy.shouldRetry(
+          createError('PEER_CONNECTION_CLOSED'),
+          Buffer.from(''),
+          metadata,
+          1
+        )
+      );
+    });
+  });
+
+  describe('isReplayable', () => {
+    it('should replay buffers and unconsumed streams', async () => {
+      assert.ok(isReplayable(Buffer.from('foo')));
+
+      const readable = Readable.from(['foo', 'bar']);
+      assert.ok(isReplayable(readable));
+      await new Promise(resolve => readable.once('readable', resolve));
+      readable.read();
+      assert.ok(!isReplayable(readable));
+    });
+  });
+});
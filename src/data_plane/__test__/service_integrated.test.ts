@@ -134,4 +134,197 @@ describe(common.testName(__filename), function () {
       },
     });
   });
+
+  it('should route by rules', async () => {
+    await env.agent.setFunctionProfile([
+      {
+        name: 'node_worker_echo',
+        runtime: 'nodejs',
+        url: `file://${baselineDir}/node_worker_echo`,
+        handler: 'index.handler',
+        signature: 'md5:234234',
+      },
+    ]);
+    await env.agent.setServiceProfile([
+      {
+        name: 'foobar',
+        type: 'rule-based',
+        rules: [
+          {
+            match: {
+              headers: { 'x-canary': '1' },
+            },
+            selector: {
+              functionName: 'non-exists',
+            },
+          },
+        ],
+        selector: {
+          functionName: 'node_worker_echo',
+        },
+      },
+    ]);
+
+    await assertInvokeService(env.agent, 'foobar', {
+      input: {
+        data: Buffer.from('foobar'),
+        metadata: {
+          method: 'POST',
+        },
+      },
+      expect: {
+        data: Buffer.from('foobar'),
+      },
+    });
+
+    await assertInvokeService(env.agent, 'foobar', {
+      input: {
+        data: Buffer.from('foobar'),
+        metadata: {
+          method: 'POST',
+          headers: [['x-canary', '1']],
+        },
+      },
+      expect: {
+        error: {
+          message: /No function named non-exists registered/,
+        },
+      },
+    });
+  });
+
+  it('should fail over to the next target', async () => {
+    await env.agent.setFunctionProfile([
+      {
+        name: 'node_worker_echo',
+        runtime: 'nodejs',
+        url: `file://${baselineDir}/node_worker_echo`,
+        handler: 'index.handler',
+        signature: 'md5:234234',
+      },
+    ]);
+    await env.agent.setServiceProfile([
+      {
+        name: 'foobar',
+        type: 'failover',
+        selectors: [
+          {
+            selector: {
+              functionName: 'non-exists',
+            },
+          },
+          {
+            selector: {
+              functionName: 'node_worker_echo',
+            },
+          },
+        ],
+      },
+    ]);
+
+    await assertInvokeService(env.agent, 'foobar', {
+      input: {
+        data: Buffer.from('foobar'),
+        metadata: {
+          method: 'POST',
+        },
+      },
+      expect: {
+        data: Buffer.from('foobar'),
+      },
+    });
+  });
+
+  it('should not fail over oversized requests', async () => {
+    await env.agent.setFunctionProfile([
+      {
+        name: 'node_worker_echo',
+        runtime: 'nodejs',
+        url: `file://${baselineDir}/node_worker_echo`,
+        handler: 'index.handler',
+        signature: 'md5:234234',
+        limits: {
+          maxRequestBytes: 3,
+        },
+      },
+      {
+        name: 'aworker_echo',
+        runtime: 'aworker',
+        url: `file://${baselineDir}/aworker_echo`,
+        sourceFile: 'index.js',
+        signature: 'md5:234234',
+      },
+    ]);
+    await env.agent.setServiceProfile([
+      {
+        name: 'foobar',
+        type: 'failover',
+        selectors: [
+          {
+            selector: {
+              functionName: 'node_worker_echo',
+            },
+          },
+          {
+            selector: {
+              functionName: 'aworker_echo',
+            },
+          },
+        ],
+      },
+    ]);
+
+    await assertInvokeService(env.agent, 'foobar', {
+      input: {
+        data: Buffer.from('foobar'),
+        metadata: {
+          method: 'POST',
+        },
+      },
+      expect: {
+        error: {
+          message: /Request body exceeds the limit of 3 bytes/,
+        },
+      },
+    });
+  });
+
+  it('should not affect caller with mirror errors', async () => {
+    await env.agent.setFunctionProfile([
+      {
+        name: 'node_worker_echo',
+        runtime: 'nodejs',
+        url: `file://${baselineDir}/node_worker_echo`,
+        handler: 'index.handler',
+        signature: 'md5:234234',
+      },
+    ]);
+    await env.agent.setServiceProfile([
+      {
+        name: 'foobar',
+        type: 'default',
+        selector: {
+          functionName: 'node_worker_echo',
+        },
+        mirror: {
+          selector: {
+            functionName: 'non-exists',
+          },
+          percentage: 100,
+        },
+      },
+    ]);
+
+    await assertInvokeService(env.agent, 'foobar', {
+      input: {
+        data: Buffer.from('foobar'),
+        metadata: {
+          method: 'POST',
+        },
+      },
+      expect: {
+        data: Buffer.from('foobar'),
+      },
+    });
+  });
 });
@@ -0,0 +1,218 @@
+import assert from 'assert';
+
+import * as common from '#self/test/common';
+import { Metadata } from '#self/delegate/request_response';
+import { ServiceSelector } from '#self/data_plane/service_selector';
+
+describe(common.testName(__filename), () => {
+  describe('proportional-load-balance', () => {
+    const selector = new ServiceSelector([
+      {
+        name: 'foo',
+        type: 'proportional-load-balance',
+        selectors: [
+          { selector: { functionName: 'stable' }, proportion: 0.9 },
+          { selector: { functionName: 'canary' }, proportion: 0.1 },
+        ],
+        stickyKey: { header: 'x-user-id' },
+      },
+    ]);
+
+    function select(userId?: string) {
+      return selector.select(
+        'foo',
+        new Metadata({
+          headers: userId == null ? [] : [['x-user-id', userId]],
+        })
+      )?.functionName;
+    }
+
+    it('should stick to the same target by key', () => {
+      const targets = new Map<string, string | undefined>();
+      for (let idx = 0; idx < 200; idx++) {
+        targets.set(`user-${idx}`, select(`user-${idx}`));
+      }
+      for (const [userId, target] of targets) {
+        for (let i = 0; i < 3; i++) {
+          assert.strictEqual(select(userId), target);
+        }
+      }
+      // keys are spread by proportions.
+      const values = Array.from(targets.values());
+      assert.ok(values.includes('stable'));
+      assert.ok(values.includes('canary'));
+      const canaryCount = values.filter(it => it === 'canary').length;
+      assert.ok(canaryCount < 60, `canary count ${canaryCount}`);
+    });
+
+    it('should select randomly without key', () => {
+      const targets = new Set();
+      for (let idx = 0; idx < 200; idx++) {
+        targets.add(select());
+      }
+      assert.deepStrictEqual(targets, new Set(['stable', 'canary']));
+    });
+  });
+
+  describe('rule-based', () => {
+    const selector = new ServiceSelector([
+      {
+        name: 'foo',
+        type: 'rule-based',
+        rules: [
+          {
+            match: { headers: { 'x-canary': '1' } },
+            selector: { functionName: 'canary' },
+          },
+          {
+            match: { pathPrefix: '/api/', method: 'post' },
+            selector: { functionName: 'api' },
+          },
+          {
+            match: { baggage: { tenant: 'bar' } },
+            selector: { functionName: 'bar' },
+          },
+        ],
+        selector: { functionName: 'stable' },
+      },
+      {
+        name: 'no-fallback',
+        type: 'rule-based',
+        rules: [
+          {
+            match: { method: 'GET' },
+            selector: { functionName: 'get' },
+          },
+        ],
+      },
+    ]);
+
+    function select(
+      serviceName: string,
+      init: ConstructorParameters<typeof Metadata>[0]
+    ) {
+      return selector.select(serviceName, new Metadata(init))?.functionName;
+    }
+
+    it('should select by headers', () => {
+      assert.strictEqual(
+        select('foo', { headers: [['X-Canary', '1']] }),
+        'canary'
+      );
+      assert.strictEqual(
+        select('foo', { headers: [['x-canary', '0']] }),
+        'stable'
+      );
+    });
+
+    it('should select by path prefix and method', () => {
+      assert.strictEqual(
+        select('foo', { url: 'http://example.com/api/foo', method: 'POST' }),
+        'api'
+      );
+      assert.strictEqual(
+        select('foo', { url: '/api/foo?bar', method: 'POST' }),
+        'api'
+      );
+      assert.strictEqual(
+        select('foo', { url: '/api/foo', method: 'GET' }),
+        'stable'
+      );
+      assert.strictEqual(
+        select('foo', { url: '/apis', method: 'POST' }),
+        'stable'
+      );
+    });
+
+    it('should select by baggage', () => {
+      assert.strictEqual(
+        select('foo', { baggage: [['tenant', 'bar']] }),
+        'bar'
+      );
+    });
+
+    it('should prefer the first matching rule', () => {
+      assert.strictEqual(
+        select('foo', {
+          headers: [['x-canary', '1']],
+          baggage: [['tenant', 'bar']],
+        }),
+        'canary'
+      );
+    });
+
+    it('should return undefined if no rules matched without fallback', () => {
+      assert.strictEqual(select('no-fallback', { method: 'GET' }), 'get');
+      assert.strictEqual(select('no-fallback', { method: 'POST' }), undefined);
+    });
+  });
+
+  describe('failover', () => {
+    const selector = new ServiceSelector([
+      {
+        name: 'foo',
+        type: 'failover',
+        selectors: [
+          { selector: { functionName: 'primary' } },
+          { selector: { functionName: 'secondary' } },
+        ],
+      },
+      {
+        name: 'bar',
+        selector: { functionName: 'bar' },
+        type: 'default',
+      },
+    ]);
+
+    it('should select all targets in order', () => {
+      const metadata = new Metadata({});
+      assert.deepStrictEqual(
+        selector.selectAll('foo', metadata).map(it => it.functionName),
+        ['primary', 'secondary']
+      );
+      assert.strictEqual(
+        selector.select('foo', metadata)?.functionName,
+        'primary'
+      );
+      assert.deepStrictEqual(
+        selector.selectAll('bar', metadata).map(it => it.functionName),
+        ['bar']
+      );
+      assert.deepStrictEqual(selector.selectAll('non-exists', metadata), []);
+    });
+  });
+
+  describe('mirror', () => {
+    const selector = new ServiceSelector([
+      {
+        name: 'all',
+        selector: { functionName: 'foo' },
+        type: 'default',
+        mirror: { selector: { functionName: 'shadow' }, percentage: 100 },
+      },
+      {
+        name: 'none',
+        selector: { functionName: 'foo' },
+        type: 'default',
+        mirror: { selector: { functionName: 'shadow' }, percentage: 0 },
+      },
+      {
+        name: 'no-mirror',
+        selector: { functionName: 'foo' },
+        type: 'default',
+      },
+    ]);
+
+    it('should sample requests by percentage', () => {
+      for (let i = 0; i < 100; i++) {
+        assert.strictEqual(
+          selector.selectMirror('all')?.functionName,
+          'shadow'
+        );
+        assert.strictEqual(selector.selectMirror('none'), undefined);
+        assert.strictEqual(selector.selectMirror('no-mirror'), undefined);
+        assert.strictEqual(selector.selectMirror('non-exists'), undefined);
+      }
+    });
+  });
+});
@@ -4,6 +4,7 @@ import { Histogram, MeterProvider } from '@opentelemetry/sdk-metrics';
 
 import { bufferFromStream } from '#self/lib/util';
 import {
+  DataPlaneMetricAttributes,
   DataPlaneMetrics,
   PlaneMetricAttributes,
 } from '#self/lib/telemetry/semantic_conventions';
@@ -52,6 +53,7 @@ describe.skip(common.testName(__filename), function () {
         {
           [PlaneMetricAttributes.FUNCTION_NAME]: nodeJsWorkerTestItem.name,
           [PlaneMetricAttributes.SERVICE_NAME]: '',
+          [DataPlaneMetricAttributes.STATUS_CODE]: 200,
         }
       );
       assert.strictEqual(records.length, 1);
@@ -65,6 +67,7 @@ describe.skip(common.testName(__filename), function () {
         {
           [PlaneMetricAttributes.FUNCTION_NAME]: nodeJsWorkerTestItem.name,
           [PlaneMetricAttributes.SERVICE_NAME]: '',
+          [DataPlaneMetricAttributes.STATUS_CODE]: 200,
         }
       );
       assert.strictEqual(records.length, 1);
@@ -127,6 +130,7 @@ describe.skip(common.testName(__filename), function () {
         {
           [PlaneMetricAttributes.FUNCTION_NAME]: nodeJsWorkerTestItem.name,
           [PlaneMetricAttributes.SERVICE_NAME]: 'foobar',
+          [DataPlaneMetricAttributes.STATUS_CODE]: 200,
         }
       );
       assert.strictEqual(records.length, 1);
@@ -140,6 +144,7 @@ describe.skip(common.testName(__filename), function () {
         {
           [PlaneMetricAttributes.FUNCTION_NAME]: nodeJsWorkerTestItem.name,
           [PlaneMetricAttributes.SERVICE_NAME]: 'foobar',
+          [DataPlaneMetricAttributes.STATUS_CODE]: 200,
         }
       );
       assert.strictEqual(records.length, 1);
@@ -1,7 +1,7 @@
 import assert from 'assert';
 
 import * as common from '#self/test/common';
-import { TokenBucket } from '#self/data_plane/token_bucket';
+import { KeyedTokenBucket, TokenBucket } from '#self/data_plane/token_bucket';
 import FakeTimer, { Clock } from '@sinonjs/fake-timers';
 
 describe(common.testName(__filename), () => {
@@ -11,7 +11,7 @@ describe(common.testName(__filename), () => {
   let clock: Clock;
   beforeEach(() => {
     clock = FakeTimer.install({
-      toFake: ['setInterval'],
+      toFake: ['setInterval', 'setTimeout', 'clearTimeout', 'Date'],
     });
   });
   afterEach(() => {
@@ -120,4 +120,188 @@ describe(common.testName(__filename), () => {
     clock.tick(1);
     assert.strictEqual(tokenBucket.tokenCount, 1);
   });
+
+  describe('acquireUntil', () => {
+    it('should wait for refills', async () => {
+      tokenBucket = new TokenBucket({
+        maxTokenCount: 1,
+        tokensPerFill: 1,
+        fillInterval: 10,
+      });
+      tokenBucket.start();
+
+      assert.strictEqual(
+        await tokenBucket.acquireUntil(Date.now() + 100),
+        true
+      );
+
+      const results: boolean[] = [];
+      const futures = [1, 2].map(() =>
+        tokenBucket.acquireUntil(Date.now() + 100).then(it => {
+          results.push(it);
+        })
+      );
+      assert.strictEqual(tokenBucket.waitingCount, 2);
+      // waiters are served before new acquisitions.
+      clock.tick(10);
+      assert.strictEqual(tokenBucket.acquire(), false);
+      clock.tick(10);
+      await Promise.all(futures);
+      assert.deepStrictEqual(results, [true, true]);
+      assert.strictEqual(tokenBucket.waitingCount, 0);
+    });
+
+    it('should give up waiting on deadline', async () => {
+      tokenBucket = new TokenBucket({
+        maxTokenCount: 1,
+        tokensPerFill: 1,
+        fillInterval: 100,
+      });
+      tokenBucket.start();
+
+      assert.strictEqual(tokenBucket.acquire(), true);
+      const future = tokenBucket.acquireUntil(Date.now() + 10);
+      clock.tick(10);
+      assert.strictEqual(await future, false);
+      assert.strictEqual(tokenBucket.waitingCount, 0);
+
+      // the token is not consumed by the expired waiter.
+      clock.tick(90);
+      assert.strictEqual(tokenBucket.acquire(), true);
+    });
+
+    it('should give up waiting on close', async () => {
+      tokenBucket = new TokenBucket({
+        maxTokenCount: 1,
+        tokensPerFill: 1,
+        fillInterval: 100,
+      });
+      tokenBucket.start();
+
+      assert.strictEqual(tokenBucket.acquire(), true);
+      const future = tokenBucket.acquireUntil(Date.now() + 1000);
+      tokenBucket.close();
+      assert.strictEqual(await future, false);
+    });
+  });
+
+  describe('KeyedTokenBucket', () => {
+    let keyedTokenBucket: KeyedTokenBucket;
+    afterEach(() => {
+      keyedTokenBucket?.close();
+    });
+
+    it('should throw error when not start', () => {
+      keyedTokenBucket = new KeyedTokenBucket({ maxTokenCount: 1 });
+
+      assert.throws(
+        () => {
+          keyedTokenBucket.acquire('foo');
+        },
+        {
+          message: 'rate limit unavailable',
+        }
+      );
+    });
+
+    it('should maintain tokens per key', () => {
+      keyedTokenBucket = new KeyedTokenBucket({
+        maxTokenCount: 1,
+        tokensPerFill: 1,
+        fillInterval: 1,
+      });
+      keyedTokenBucket.start();
+
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), false);
+      assert.strictEqual(keyedTokenBucket.acquire('bar'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('bar'), false);
+      assert.strictEqual(keyedTokenBucket.keyCount, 2);
+
+      clock.tick(1);
+      // refilled buckets are dropped.
+      assert.strictEqual(keyedTokenBucket.keyCount, 0);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), false);
+    });
+
+    it('should keep partially refilled buckets', () => {
+      keyedTokenBucket = new KeyedTokenBucket({
+        maxTokenCount: 3,
+        tokensPerFill: 1,
+        fillInterval: 1,
+      });
+      keyedTokenBucket.start();
+
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), false);
+
+      clock.tick(1);
+      assert.strictEqual(keyedTokenBucket.keyCount, 1);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), false);
+    });
+
+    it('should evict least recently used buckets', () => {
+      keyedTokenBucket = new KeyedTokenBucket({
+        maxTokenCount: 1,
+        maxKeyCount: 2,
+      });
+      keyedTokenBucket.start();
+
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('bar'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('foo'), false);
+      assert.strictEqual(keyedTokenBucket.acquire('baz'), true);
+      assert.strictEqual(keyedTokenBucket.keyCount, 2);
+
+      // bucket of `bar` has been evicted.
+      assert.strictEqual(keyedTokenBucket.acquire('bar'), true);
+      assert.strictEqual(keyedTokenBucket.acquire('baz'), false);
+    });
+
+    it('should not evict buckets with waiters', async () => {
+      keyedTokenBucket = new KeyedTokenBucket({
+        maxTokenCount: 1,
+        tokensPerFill: 1,
+        fillInterval: 100,
+        maxKeyCount: 2,
+      });
+      keyedTokenBucket.start();
+
+      const results = new Map<string, boolean>();
+      const futures = ['foo', 'bar', 'baz'].map(key => {
+        assert.strictEqual(keyedTokenBucket.acquire(key), true);
+        return keyedTokenBucket
+          .acquireUntil(key, Date.now() + 1000)
+          .then(it => {
+            results.set(key, it);
+          });
+      });
+      assert.strictEqual(keyedTokenBucket.waitingCount, 3);
+      assert.strictEqual(keyedTokenBucket.keyCount, 3);
+      // waiters of `foo` are kept waiting behind the evicted bucket.
+      const future = keyedTokenBucket
+        .acquireUntil('foo', Date.now() + 1000)
+        .then(it => {
+          results.set('foo#2', it);
+        });
+
+      clock.tick(100);
+      await Promise.all(futures);
+      assert.deepStrictEqual(Object.fromEntries(results), {
+        foo: true,
+        bar: true,
+        baz: true,
+      });
+      clock.tick(100);
+      await future;
+      assert.strictEqual(results.get('foo#2'), true);
+      assert.strictEqual(keyedTokenBucket.waitingCount, 0);
+      clock.tick(100);
+      assert.strictEqual(keyedTokenBucket.keyCount, 0);
+    });
+  });
 });
@@ -6,12 +6,24 @@ import {
   FunctionProfileManagerContext,
   FunctionProfileManagerEvents,
 } from '#self/lib/function_profile';
-import { WorkerBroker } from '../worker_broker';
+import { Worker, WorkerBroker } from '../worker_broker';
+import { ConsistentHashDispatcher } from '../dispatcher/consistent_hash';
+import { LeastRequestCountDispatcher } from '../dispatcher/least_request_count';
+import { DataWorker } from '../dispatcher/dispatcher';
 import { kMegaBytes } from '#self/control_plane/constants';
 import { DataFlowController } from '../data_flow_controller';
 import { DependencyContext } from '#self/lib/dependency_context';
 import { EventBus } from '#self/lib/event-bus';
 import { config } from '#self/config';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { bufferFromStream } from '#self/lib/util';
+import { RpcStatus } from '#self/lib/rpc/error';
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { TestTracerProvider } from '#self/test/telemetry-util';
+import {
+  TraceAttributes,
+  TraceSpans,
+} from '#self/lib/telemetry/semantic_conventions';
 
 const PROFILES = [
   {
@@ -43,8 +55,24 @@ const PROFILES = [
 
 const mockHost = {
   broadcastContainerStatusReport() {},
+  broadcastRequestQueueing() {},
+};
+
+const mockMeterInstrument = {
+  add() {},
+  record() {},
 };
 
+function createMockCounter() {
+  const counter = {
+    count: 0,
+    add(value: number) {
+      counter.count += value;
+    },
+  };
+  return counter;
+}
+
 describe(common.testName(__filename), () => {
   describe('WorkerBroker#bindWorker', async () => {
     let profileManager: FunctionProfileManager;
@@ -92,4 +120,679 @@ describe(common.testName(__filename), () => {
       assert(triggerCalled);
     });
   });
+
+  describe('WorkerBroker', () => {
+    let profileManager: FunctionProfileManager;
+    let broker: WorkerBroker;
+
+    let triggeredMetadata: Metadata[] = [];
+    let rateLimitedRequestCounter: ReturnType<typeof createMockCounter>;
+    let circuitBreakerRejectedRequestCounter: ReturnType<
+      typeof createMockCounter
+    >;
+    const delegate = {
+      async trigger(credential: any, method: any, data: any, metadata: any) {
+        if (method === 'invoke') {
+          triggeredMetadata.push(metadata);
+          return new TriggerResponse({ read() {} });
+        }
+      },
+      resetPeer() {},
+    };
+
+    beforeEach(async () => {
+      const ctx = new DependencyContext<FunctionProfileManagerContext>();
+      ctx.bindInstance('config', config);
+      ctx.bindInstance(
+        'eventBus',
+        new EventBus([...FunctionProfileManagerEvents])
+      );
+      profileManager = new FunctionProfileManager(ctx);
+      await profileManager.setProfiles(PROFILES as any);
+      triggeredMetadata = [];
+      rateLimitedRequestCounter = createMockCounter();
+      circuitBreakerRejectedRequestCounter = createMockCounter();
+
+      broker = new WorkerBroker(
+        {
+          delegate,
+          host: mockHost,
+          queuedRequestCounter: mockMeterInstrument,
+          queuedRequestDurationHistogram: mockMeterInstrument,
+          rateLimitedRequestCounter,
+          circuitBreakerRejectedRequestCounter,
+        } as unknown as DataFlowController,
+        profileManager.getProfile('node-http-demo')!,
+        {}
+      );
+      await broker.ready();
+    });
+
+    afterEach(async () => {
+      await broker.close();
+    });
+
+    async function updateProfile(patch: object) {
+      const profiles = JSON.parse(JSON.stringify(PROFILES));
+      Object.assign(profiles[0], patch);
+      await profileManager.setProfiles(profiles);
+      broker.updateProfile(profileManager.getProfile('node-http-demo')!);
+    }
+
+    describe('#updateProfile', () => {
+      it('should migrate workers to the new dispatcher', async () => {
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+        assert.strictEqual(broker['_dispatcher'].type, 'least-request-count');
+
+        await updateProfile({
+          worker: { ...PROFILES[0].worker, dispatchMode: 'round-robin' },
+        });
+        assert.strictEqual(broker['_dispatcher'].type, 'round-robin');
+
+        const resp = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        assert.strictEqual(resp.workerName, 'foo');
+        resp.push(null);
+        await bufferFromStream(resp);
+      });
+
+      it('should apply virtual node count changes', async () => {
+        broker.registerCredential('foo', 'foo');
+        await broker.bindWorker('foo');
+        broker.registerCredential('bar', 'bar');
+        await broker.bindWorker('bar');
+
+        const updateVirtualNodeCount = (virtualNodeCount: number) =>
+          updateProfile({
+            worker: {
+              ...PROFILES[0].worker,
+              dispatchMode: 'consistent-hash',
+              consistentHash: { header: 'x-user', virtualNodeCount },
+            },
+          });
+        await updateVirtualNodeCount(8);
+        const previous = broker['_dispatcher'] as ConsistentHashDispatcher;
+        assert.strictEqual(previous['_ring'].length, 16);
+
+        await updateVirtualNodeCount(32);
+        const dispatcher = broker['_dispatcher'] as ConsistentHashDispatcher;
+        assert.notStrictEqual(dispatcher, previous);
+        assert.strictEqual(dispatcher.virtualNodeCount, 32);
+        assert.strictEqual(dispatcher['_ring'].length, 64);
+      });
+
+      it('should dispatch queued requests with the new dispatcher', async () => {
+        const future = broker.invoke(Buffer.from('foo'), new Metadata({}));
+        // wait for the request to be queued.
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(broker.getPendingRequestCount(), 1);
+
+        await updateProfile({
+          worker: { ...PROFILES[0].worker, dispatchMode: 'round-robin' },
+        });
+
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        const resp = await future;
+        assert.strictEqual(resp.workerName, 'foo');
+        assert.strictEqual(broker.getPendingRequestCount(), 0);
+        resp.push(null);
+        await bufferFromStream(resp);
+      });
+
+      it('should drain queued requests only by the new dispatcher', async () => {
+        await updateProfile({
+          worker: { ...PROFILES[0].worker, maxActivateRequests: 1 },
+        });
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        const active = await broker.invoke(
+          Buffer.from('foo'),
+          new Metadata({})
+        );
+        const future = broker.invoke(Buffer.from('bar'), new Metadata({}));
+        // wait for the request to be queued.
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(broker.getPendingRequestCount(), 1);
+
+        const previous = broker['_dispatcher'] as LeastRequestCountDispatcher;
+        await updateProfile({
+          worker: {
+            ...PROFILES[0].worker,
+            maxActivateRequests: 1,
+            dispatchMode: 'p2c-ewma',
+          },
+        });
+        const dispatcher = broker['_dispatcher'];
+        assert.strictEqual(dispatcher.type, 'p2c-ewma');
+        // the worker is busy, the request is still queued.
+        assert.strictEqual(broker.getPendingRequestCount(), 1);
+
+        let previousConsumed = 0;
+        previous._tryConsumeQueue = () => {
+          previousConsumed++;
+        };
+        const released: string[] = [];
+        const releaseWorker = dispatcher.releaseWorker.bind(dispatcher);
+        dispatcher.releaseWorker = (worker: DataWorker) => {
+          released.push(worker.name);
+          releaseWorker(worker);
+        };
+
+        active.push(null);
+        await bufferFromStream(active);
+        const resp = await future;
+        assert.strictEqual(resp.workerName, 'foo');
+        assert.strictEqual(broker.getPendingRequestCount(), 0);
+        assert.strictEqual(previousConsumed, 0);
+        assert.deepStrictEqual(released, ['foo']);
+        resp.push(null);
+        await bufferFromStream(resp);
+      });
+
+      it('should apply rate limit changes', async () => {
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        await updateProfile({
+          rateLimit: {
+            maxTokenCount: 1,
+          },
+        });
+
+        const resp = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        resp.push(null);
+        await bufferFromStream(resp);
+
+        await assert.rejects(
+          broker.invoke(Buffer.from('foo'), new Metadata({})),
+          /rate limit exceeded/
+        );
+        assert.strictEqual(rateLimitedRequestCounter.count, 1);
+
+        await updateProfile({});
+        const resp2 = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        resp2.push(null);
+        await bufferFromStream(resp2);
+      });
+
+      it('should apply concurrency stats mode changes', async () => {
+        const previous = broker.concurrencyStats;
+        await updateProfile({
+          worker: {
+            ...PROFILES[0].worker,
+            concurrencyStatsMode: 'periodic_max',
+          },
+        });
+        assert.notStrictEqual(broker.concurrencyStats, previous);
+      });
+    });
+
+    describe('consistent hash', () => {
+      it('should dispatch by consistent hash', async () => {
+        broker.registerCredential('foo', 'foo');
+        await broker.bindWorker('foo');
+        broker.registerCredential('bar', 'bar');
+        await broker.bindWorker('bar');
+
+        await updateProfile({
+          worker: {
+            ...PROFILES[0].worker,
+            dispatchMode: 'consistent-hash',
+            consistentHash: { header: 'x-user' },
+          },
+        });
+        assert.strictEqual(broker['_dispatcher'].type, 'consistent-hash');
+
+        const invoke = async (user: string) => {
+          const resp = await broker.invoke(
+            Buffer.from('foo'),
+            new Metadata({ headers: [['x-user', user]] })
+          );
+          resp.push(null);
+          await bufferFromStream(resp);
+          return resp.workerName;
+        };
+        const workerName = await invoke('alice');
+        for (let i = 0; i < 5; i++) {
+          assert.strictEqual(await invoke('alice'), workerName);
+        }
+      });
+    });
+
+    describe('rate limit', () => {
+      it('should apply rate limit per key', async () => {
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        await updateProfile({
+          rateLimit: {
+            maxTokenCount: 1,
+            keyBy: { header: 'x-caller' },
+          },
+        });
+
+        const invoke = (caller: string) =>
+          broker.invoke(
+            Buffer.from('foo'),
+            new Metadata({ headers: [['x-caller', caller]] })
+          );
+
+        const resp = await invoke('foo');
+        resp.push(null);
+        await bufferFromStream(resp);
+        await assert.rejects(invoke('foo'), /rate limit exceeded/);
+
+        const resp2 = await invoke('bar');
+        resp2.push(null);
+        await bufferFromStream(resp2);
+      });
+
+      it('should wait for rate limit tokens in queue mode', async () => {
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        await updateProfile({
+          rateLimit: {
+            maxTokenCount: 1,
+            tokensPerFill: 1,
+            fillInterval: 50,
+            mode: 'queue',
+          },
+        });
+
+        const resp = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        resp.push(null);
+        await bufferFromStream(resp);
+
+        const future = broker.invoke(Buffer.from('foo'), new Metadata({}));
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(broker.rateLimitWaitingCount, 1);
+        const resp2 = await future;
+        assert.strictEqual(broker.rateLimitWaitingCount, 0);
+        resp2.push(null);
+        await bufferFromStream(resp2);
+
+        await assert.rejects(
+          broker.invoke(
+            Buffer.from('foo'),
+            new Metadata({ deadline: Date.now() + 10 })
+          ),
+          {
+            code: RpcStatus.DEADLINE_EXCEEDED,
+          }
+        );
+        assert.strictEqual(broker.rateLimitWaitingCount, 0);
+        // Throttled requests are not counted as concurrent requests.
+        assert.strictEqual(broker.concurrencyStats.getConcurrency(), 0);
+      });
+    });
+
+    describe('request queue', () => {
+      it('should dispatch queued requests by priority', async () => {
+        await updateProfile({
+          worker: {
+            ...PROFILES[0].worker,
+            maxActivateRequests: 1,
+            requestPriority: { header: 'x-priority' },
+          },
+        });
+
+        const order: string[] = [];
+        const futures = ['low', 'normal', 'high'].map(async priority => {
+          const resp = await broker.invoke(
+            Buffer.from('foo'),
+            new Metadata({
+              requestId: priority,
+              headers: [['X-Priority', priority]],
+            })
+          );
+          order.push(priority);
+          resp.push(null);
+          await bufferFromStream(resp);
+        });
+        // wait for the requests to be queued.
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(broker.getPendingRequestCount(), 3);
+
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        await Promise.all(futures);
+        assert.deepStrictEqual(order, ['high', 'normal', 'low']);
+      });
+
+      it('should reject requests when request queue is full', async () => {
+        await updateProfile({
+          worker: {
+            ...PROFILES[0].worker,
+            maxQueueLength: 2,
+          },
+        });
+
+        const futures = ['foo', 'bar'].map(requestId =>
+          broker.invoke(Buffer.from('foo'), new Metadata({ requestId }))
+        );
+        // wait for the requests to be queued.
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(broker.getPendingRequestCount(), 2);
+
+        await assert.rejects(
+          broker.invoke(Buffer.from('foo'), new Metadata({ requestId: 'baz' })),
+          {
+            code: RpcStatus.RESOURCE_EXHAUSTED,
+            message: /Request queue of .+ is full/,
+          }
+        );
+        assert.strictEqual(broker.getPendingRequestCount(), 2);
+
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+        for (const future of futures) {
+          const resp = await future;
+          resp.push(null);
+          await bufferFromStream(resp);
+        }
+      });
+
+      it('should limit queueing time of requests', async () => {
+        await updateProfile({
+          worker: {
+            ...PROFILES[0].worker,
+            maxQueueWaitMs: 10,
+          },
+        });
+
+        await assert.rejects(
+          broker.invoke(
+            Buffer.from('foo'),
+            new Metadata({ requestId: 'foo', deadline: Date.now() + 10_000 })
+          ),
+          {
+            code: RpcStatus.DEADLINE_EXCEEDED,
+            message: /Waiting for worker has timed out/,
+          }
+        );
+        assert.strictEqual(broker.getPendingRequestCount(), 0);
+      });
+
+      it('should reject queued requests on caller aborted', async () => {
+        const abortController = new AbortController();
+        const future = broker.invoke(
+          Buffer.from('foo'),
+          new Metadata({ requestId: 'foo', signal: abortController.signal })
+        );
+        // wait for the request to be queued.
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(broker.getPendingRequestCount(), 1);
+
+        abortController.abort();
+        await assert.rejects(future, {
+          code: RpcStatus.CANCELLED,
+          message: /aborted by caller/,
+        });
+        assert.strictEqual(broker.getPendingRequestCount(), 0);
+      });
+    });
+
+    describe('#drain', () => {
+      it('should drain pending and active requests', async () => {
+        await updateProfile({
+          worker: {
+            ...PROFILES[0].worker,
+            maxActivateRequests: 1,
+          },
+        });
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        const resp = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        const queued = broker.invoke(Buffer.from('foo'), new Metadata({}));
+        // wait for the request to be queued.
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(broker.getPendingRequestCount(), 1);
+
+        const drainFuture = broker.drain(10_000);
+        await assert.rejects(queued, {
+          code: RpcStatus.UNAVAILABLE,
+          message: /is shutting down/,
+        });
+        await assert.rejects(
+          broker.invoke(Buffer.from('foo'), new Metadata({})),
+          {
+            code: RpcStatus.UNAVAILABLE,
+            message: /is shutting down/,
+          }
+        );
+        assert.strictEqual(broker.activeRequestCount, 1);
+
+        resp.push(null);
+        await bufferFromStream(resp);
+        await drainFuture;
+        assert.strictEqual(broker.activeRequestCount, 0);
+      });
+
+      it('should stop waiting for active requests after grace period', async () => {
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        const resp = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        await broker.drain(10);
+        assert.strictEqual(broker.activeRequestCount, 1);
+
+        resp.push(null);
+        await bufferFromStream(resp);
+      });
+
+      it('should accept requests again once resumed', async () => {
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        const resp = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        const future = broker.drain(10_000);
+        await assert.rejects(
+          broker.invoke(Buffer.from('foo'), new Metadata({})),
+          {
+            code: RpcStatus.UNAVAILABLE,
+          }
+        );
+
+        broker.resume();
+        assert.strictEqual(broker.draining, false);
+        // The previous drain is cancelled.
+        await future;
+        assert.strictEqual(broker.activeRequestCount, 1);
+
+        const resp2 = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        for (const it of [resp, resp2]) {
+          it.push(null);
+          await bufferFromStream(it);
+        }
+      });
+    });
+
+    describe('circuit breaker', () => {
+      it('should reject requests when function circuit breaker opened', async () => {
+        broker.registerCredential('foo', 'bar');
+        await broker.bindWorker('bar');
+
+        await updateProfile({
+          circuitBreaker: {
+            minSampleCount: 2,
+            slidingWindowSize: 2,
+          },
+        });
+        assert.ok(broker.circuitBreaker);
+
+        let status = 500;
+        broker['_dispatcher'].invoke = async () =>
+          new TriggerResponse({ read() {}, status });
+
+        for (let i = 0; i < 2; i++) {
+          const resp = await broker.invoke(
+            Buffer.from('foo'),
+            new Metadata({})
+          );
+          assert.strictEqual(resp.status, status);
+        }
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(broker.toJSON().circuitBreaker?.state, 'open');
+
+        await assert.rejects(
+          broker.invoke(Buffer.from('foo'), new Metadata({})),
+          {
+            name: 'FunctionCircuitBreakerOpenedError',
+            code: RpcStatus.FAILED_PRECONDITION,
+            message: /Function circuit breaker opened/,
+          }
+        );
+        assert.strictEqual(circuitBreakerRejectedRequestCounter.count, 1);
+        assert.strictEqual(broker.concurrencyStats.getConcurrency(), 0);
+
+        status = 200;
+        await updateProfile({});
+        assert.strictEqual(broker.circuitBreaker, undefined);
+        const resp = await broker.invoke(Buffer.from('foo'), new Metadata({}));
+        assert.strictEqual(resp.status, status);
+      });
+    });
+
+    describe('retry', () => {
+      it('should retry failed invocations on another worker', async () => {
+        broker.registerCredential('foo', 'foo');
+        await broker.bindWorker('foo');
+        broker.registerCredential('bar', 'bar');
+        await broker.bindWorker('bar');
+
+        // Sticky requests are dispatched to the same worker unless excluded.
+        await updateProfile({
+          worker: {
+            ...PROFILES[0].worker,
+            dispatchMode: 'consistent-hash',
+            consistentHash: { header: 'x-user' },
+          },
+          retry: { maxAttempts: 3 },
+        });
+        assert.ok(broker.retryPolicy);
+
+        const attempts: string[] = [];
+        let failingWorker: string | undefined;
+        const trigger = delegate.trigger;
+        delegate.trigger = async (credential, method, data, metadata) => {
+          if (method === 'invoke') {
+            attempts.push(credential);
+            failingWorker ??= credential;
+            if (credential === failingWorker) {
+              const error = new Error('Peer connection closed');
+              error.name = 'PEER_CONNECTION_CLOSED';
+              throw error;
+            }
+          }
+          return trigger(credential, method, data, metadata);
+        };
+        const invoke = (method?: string) =>
+          broker.invoke(
+            Buffer.from('foo'),
+            new Metadata({ method, headers: [['x-user', 'alice']] })
+          );
+
+        try {
+          const resp = await invoke();
+          const otherWorker = failingWorker === 'foo' ? 'bar' : 'foo';
+          assert.strictEqual(resp.workerName, otherWorker);
+          assert.deepStrictEqual(attempts, [failingWorker, otherWorker]);
+          resp.push(null);
+          await bufferFromStream(resp);
+
+          // non-idempotent methods are not retried.
+          attempts.length = 0;
+          await assert.rejects(invoke('POST'), /Peer connection closed/);
+          assert.deepStrictEqual(attempts, [failingWorker]);
+
+          // the failed worker is not retried even if attempts remain.
+          await (broker.getWorker(otherWorker) as Worker).closeTraffic();
+          attempts.length = 0;
+          await assert.rejects(invoke(), /Peer connection closed/);
+          assert.deepStrictEqual(attempts, [failingWorker]);
+        } finally {
+          delegate.trigger = trigger;
+        }
+      });
+    });
+
+    describe('tracing', () => {
+      it('should trace queueing and worker invocations', async () => {
+        const provider = new TestTracerProvider();
+        trace.setGlobalTracerProvider(provider);
+        try {
+          const traceId = '0af7651916cd43dd8448eb211c80319c';
+          const future = broker.invoke(
+            Buffer.from('foo'),
+            new Metadata({
+              headers: [['traceparent', `00-${traceId}-b7ad6b7169203331-01`]],
+            })
+          );
+          // wait for the request to be queued.
+          await new Promise(resolve => setImmediate(resolve));
+          assert.strictEqual(broker.getPendingRequestCount(), 1);
+
+          broker.registerCredential('foo', 'bar');
+          await broker.bindWorker('bar');
+          const resp = await future;
+
+          const [queue] = provider.getSpans(TraceSpans.QUEUE);
+          assert.ok(queue.ended);
+          assert.strictEqual(queue.parentSpanId, 'b7ad6b7169203331');
+          assert.strictEqual(queue.spanContext().traceId, traceId);
+
+          const [span] = provider.getSpans(TraceSpans.WORKER_INVOKE);
+          assert.strictEqual(span.parentSpanId, 'b7ad6b7169203331');
+          assert.strictEqual(
+            span.attributes[TraceAttributes.WORKER_NAME],
+            'foo'
+          );
+          assert.deepStrictEqual(triggeredMetadata[0].headers, [
+            ['traceparent', `00-${traceId}-${span.spanContext().spanId}-01`],
+          ]);
+
+          // Ended once the response has been consumed.
+          assert.ok(!span.ended);
+          resp.push(null);
+          await bufferFromStream(resp);
+          await resp.finish();
+          assert.ok(span.ended);
+          assert.strictEqual(span.status.code, SpanStatusCode.UNSET);
+        } finally {
+          trace.disable();
+        }
+      });
+
+      it('should trace queueing timeout', async () => {
+        const provider = new TestTracerProvider();
+        trace.setGlobalTracerProvider(provider);
+        try {
+          await assert.rejects(
+            broker.invoke(
+              Buffer.from('foo'),
+              new Metadata({ deadline: Date.now() + 10 })
+            ),
+            {
+              code: RpcStatus.DEADLINE_EXCEEDED,
+            }
+          );
+          const [queue] = provider.getSpans(TraceSpans.QUEUE);
+          assert.ok(queue.ended);
+          assert.strictEqual(queue.status.code, SpanStatusCode.ERROR);
+          assert.match(
+            queue.status.message!,
+            /Waiting for worker has timed out/
+          );
+        } finally {
+          trace.disable();
+        }
+      });
+    });
+  });
 });
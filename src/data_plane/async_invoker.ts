@@ -0,0 +1,468 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { AsyncInvokeConfig } from '#self/config';
+import { Metadata, MetadataInit } from '#self/delegate/request_response';
+import { Clock, systemClock, TimerHandle } from '#self/lib/clock';
+import { TaskQueue } from '#self/lib/task_queue';
+import { bufferFromStream, castError, getCurrentPlaneId } from '#self/lib/util';
+import { DataFlowController } from './data_flow_controller';
+
+const logger = require('#self/lib/logger').get('async invoker');
+
+const kDefaultMaxAttempts = 3;
+const kDefaultBackoff = 1000;
+const kDefaultMaxBackoff = 60_000;
+const kSweepInterval = 60_000;
+const kJobIdPattern = /^[0-9a-f-]+$/;
+
+export type AsyncInvokeType = 'invoke' | 'invokeService';
+
+/**
+ * + pending: waiting for the first attempt or the next retry.
+ * + running: an attempt is in flight.
+ * + succeeded: the function responded, the result is kept for a while.
+ * + dead_letter: attempts are exhausted, the job is kept until removed
+ *   manually.
+ */
+export type AsyncJobStatus =
+  | 'pending'
+  | 'running'
+  | 'succeeded'
+  | 'dead_letter';
+
+export interface AsyncJobRequest {
+  url?: string;
+  method?: string;
+  headers: [string, string][];
+  baggage: [string, string][];
+  requestId?: string;
+  /**
+   * Timeout of each attempt, in milliseconds.
+   */
+  timeout: number;
+}
+
+export interface AsyncJobResult {
+  status: number;
+  headers: [string, string][];
+  /**
+   * Base64 encoded response body.
+   */
+  body: string;
+}
+
+export interface AsyncJobError {
+  name: string;
+  message: string;
+  code?: number;
+}
+
+export interface AsyncJob {
+  id: string;
+  type: AsyncInvokeType;
+  name: string;
+  request: AsyncJobRequest;
+  status: AsyncJobStatus;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  nextAttemptAt?: number;
+  result?: AsyncJobResult;
+  error?: AsyncJobError;
+}
+
+type Delegate = Pick<
+  DataFlowController,
+  'invoke' | 'invokeService' | 'getAsyncInvokeProfile'
+>;
+
+/**
+ * Runs invocations in the background. Jobs are persisted in a directory of the
+ * data plane with the following layout, so that they survive restarts:
+ *
+ * + pending/{id}.json, pending/{id}.body: jobs to be run and their request
+ *   bodies.
+ * + done/{id}.json: succeeded jobs, removed after `resultRetention`.
+ * + dead_letter/{id}.json, dead_letter/{id}.body: jobs exhausted attempts.
+ *
+ * Jobs interrupted by a restart are run again, i.e. a job may be invoked more
+ * than once.
+ */
+export class AsyncInvoker {
+  private _dir: string;
+  private _jobs = new Map<string, AsyncJob>();
+  private _timers = new Map<string, TimerHandle>();
+  private _queue: TaskQueue<string>;
+  private _sweepTimer: TimerHandle | null = null;
+  private _closed = false;
+
+  constructor(
+    private delegate: Delegate,
+    private config: AsyncInvokeConfig,
+    private clock: Clock = systemClock
+  ) {
+    this._dir = path.join(config.dir, `dp-${getCurrentPlaneId()}`);
+    this._queue = new TaskQueue(this._run, {
+      clock,
+      concurrency: config.concurrency,
+    });
+  }
+
+  async start() {
+    await Promise.all(
+      ['pending', 'done', 'dead_letter'].map(it =>
+        fs.mkdir(path.join(this._dir, it), { recursive: true })
+      )
+    );
+
+    const files = await fs.readdir(path.join(this._dir, 'pending'));
+    for (const file of files) {
+      if (path.extname(file) !== '.json') {
+        continue;
+      }
+      const job = await this._readJob('pending', path.basename(file, '.json'));
+      if (job == null) {
+        continue;
+      }
+      // Attempts in flight were interrupted.
+      job.status = 'pending';
+      this._jobs.set(job.id, job);
+      this._schedule(job);
+    }
+    if (this._jobs.size) {
+      logger.info('restored %d pending async jobs.', this._jobs.size);
+    }
+
+    this._sweepTimer = this.clock.setInterval(this._sweep, kSweepInterval);
+  }
+
+  close() {
+    this._closed = true;
+    for (const timer of this._timers.values()) {
+      this.clock.clearTimeout(timer);
+    }
+    this._timers.clear();
+    this.clock.clearInterval(this._sweepTimer);
+    this._sweepTimer = null;
+    this._queue.close();
+  }
+
+  /**
+   * Persist the request and run it in the background.
+   */
+  async submit(
+    type: AsyncInvokeType,
+    name: string,
+    body: Buffer,
+    metadata: MetadataInit
+  ): Promise<AsyncJob> {
+    const now = this.clock.now();
+    let timeout =
+      metadata.timeout ??
+      (metadata.deadline ? metadata.deadline - now : undefined);
+    if (timeout == null || timeout <= 0) {
+      timeout = this.config.timeout;
+    }
+
+    const job: AsyncJob = {
+      id: crypto.randomUUID(),
+      type,
+      name,
+      request: {
+        url: metadata.url,
+        method: metadata.method,
+        headers: metadata.headers ?? [],
+        baggage: metadata.baggage ?? [],
+        requestId: metadata.requestId,
+        timeout,
+      },
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await writeFileAtomic(this._path('pending', job.id, '.body'), body);
+    await this._writeJob('pending', job);
+
+    this._jobs.set(job.id, job);
+    this._schedule(job);
+    return job;
+  }
+
+  /**
+   * Get the job by id, regardless of its status.
+   */
+  async get(id: string): Promise<AsyncJob | undefined> {
+    if (!kJobIdPattern.test(id)) {
+      return;
+    }
+    const job = this._jobs.get(id);
+    if (job) {
+      return job;
+    }
+    return (
+      (await this._readJob('done', id)) ??
+      (await this._readJob('dead_letter', id))
+    );
+  }
+
+  private _schedule(job: AsyncJob) {
+    const delay = (job.nextAttemptAt ?? 0) - this.clock.now();
+    if (delay <= 0) {
+      this._enqueue(job.id);
+      return;
+    }
+    this._timers.set(
+      job.id,
+      this.clock.setTimeout(() => {
+        this._timers.delete(job.id);
+        this._enqueue(job.id);
+      }, delay)
+    );
+  }
+
+  private _enqueue(id: string) {
+    // Rejected once the queue is closed, the job is restored on next start.
+    this._queue.enqueue(id).catch(() => {});
+  }
+
+  private _run = async (id: string) => {
+    const job = this._jobs.get(id);
+    if (job == null) {
+      return;
+    }
+    job.status = 'running';
+    job.attempts++;
+    job.updatedAt = this.clock.now();
+    job.nextAttemptAt = undefined;
+    job.result = undefined;
+    try {
+      await this._writeJob('pending', job);
+    } catch (e) {
+      // e.g. ENOSPC or EACCES, nothing is invoked yet, try again later.
+      logger.warn(
+        'failed to persist async job(%s) of %s(%s).',
+        job.id,
+        job.type,
+        job.name,
+        e
+      );
+      job.attempts--;
+      if (this._closed) {
+        return;
+      }
+      job.status = 'pending';
+      job.nextAttemptAt = this.clock.now() + this._getBackoff(job);
+      this._schedule(job);
+      return;
+    }
+
+    let error: AsyncJobError | undefined;
+    try {
+      const body = await fs.readFile(this._path('pending', id, '.body'));
+      const metadata = new Metadata({
+        ...job.request,
+        deadline: this.clock.now() + job.request.timeout,
+      });
+      const response = await this.delegate[job.type](job.name, body, metadata);
+      const responseBody = await bufferFromStream(response);
+      job.result = {
+        status: response.status,
+        headers: response.metadata.headers,
+        body: responseBody.toString('base64'),
+      };
+      if (response.status >= 500) {
+        error = {
+          name: 'FunctionError',
+          message: `Function responded with status ${response.status}.`,
+        };
+      }
+    } catch (e) {
+      const err = castError(e);
+      error = {
+        name: err.name,
+        message: err.message,
+        code: typeof err.code === 'number' ? err.code : undefined,
+      };
+    }
+
+    if (this._closed) {
+      // Left as is, the attempt is made again on next start.
+      return;
+    }
+    job.updatedAt = this.clock.now();
+    job.error = error;
+    if (error == null) {
+      job.status = 'succeeded';
+      await this._persist(job, () => this._succeed(job));
+      return;
+    }
+
+    const profile = this._getProfile(job);
+    const maxAttempts = profile?.maxAttempts || kDefaultMaxAttempts;
+    if (job.attempts >= maxAttempts) {
+      job.status = 'dead_letter';
+      job.result = undefined;
+      await this._persist(job, () => this._deadLetter(job));
+      return;
+    }
+
+    job.status = 'pending';
+    job.nextAttemptAt = this.clock.now() + this._getBackoff(job);
+    await this._persist(job, async () => {
+      await this._writeJob('pending', job);
+      this._schedule(job);
+    });
+  };
+
+  /**
+   * Persist the outcome of an attempt. The step is retried with backoff on
+   * failures like ENOSPC or EACCES, without invoking the function again.
+   */
+  private async _persist(job: AsyncJob, step: () => Promise<void>) {
+    try {
+      await step();
+    } catch (e) {
+      logger.warn(
+        'failed to persist async job(%s) of %s(%s).',
+        job.id,
+        job.type,
+        job.name,
+        e
+      );
+      if (this._closed) {
+        return;
+      }
+      this._timers.set(
+        job.id,
+        this.clock.setTimeout(() => {
+          this._timers.delete(job.id);
+          this._persist(job, step);
+        }, this._getBackoff(job))
+      );
+    }
+  }
+
+  private _getProfile(job: AsyncJob) {
+    return this.delegate.getAsyncInvokeProfile(
+      job.type,
+      job.name,
+      new Metadata(job.request)
+    );
+  }
+
+  private _getBackoff(job: AsyncJob) {
+    const profile = this._getProfile(job);
+    return Math.min(
+      (profile?.backoff || kDefaultBackoff) *
+        2 ** Math.max(job.attempts - 1, 0),
+      profile?.maxBackoff || kDefaultMaxBackoff
+    );
+  }
+
+  private async _succeed(job: AsyncJob) {
+    await this._writeJob('done', job);
+    this._jobs.delete(job.id);
+    await Promise.all([
+      unlinkIfExists(this._path('pending', job.id, '.json')),
+      unlinkIfExists(this._path('pending', job.id, '.body')),
+    ]);
+  }
+
+  /**
+   * The job is recorded in dead letter before the body is moved, so that a
+   * failed step can be run again until the job is moved entirely.
+   */
+  private async _deadLetter(job: AsyncJob) {
+    await this._writeJob('dead_letter', job);
+    try {
+      await fs.rename(
+        this._path('pending', job.id, '.body'),
+        this._path('dead_letter', job.id, '.body')
+      );
+    } catch (e) {
+      // Moved already.
+      if ((e as Error).code !== 'ENOENT') {
+        throw e;
+      }
+    }
+    this._jobs.delete(job.id);
+    await unlinkIfExists(this._path('pending', job.id, '.json'));
+    logger.warn(
+      'async job(%s) of %s(%s) moved to dead letter after %d attempts.',
+      job.id,
+      job.type,
+      job.name,
+      job.attempts,
+      job.error
+    );
+  }
+
+  private _sweep = async () => {
+    const dir = path.join(this._dir, 'done');
+    const expiredAt = this.clock.now() - this.config.resultRetention;
+    try {
+      for (const file of await fs.readdir(dir)) {
+        const filePath = path.join(dir, file);
+        const stat = await fs.stat(filePath);
+        if (stat.mtimeMs < expiredAt) {
+          await fs.unlink(filePath);
+        }
+      }
+    } catch (e) {
+      logger.warn('failed to sweep async job results.', e);
+    }
+  };
+
+  private _path(
+    status: 'pending' | 'done' | 'dead_letter',
+    id: string,
+    ext: '.json' | '.body'
+  ) {
+    return path.join(this._dir, status, `${id}${ext}`);
+  }
+
+  private _writeJob(status: 'pending' | 'done' | 'dead_letter', job: AsyncJob) {
+    return writeFileAtomic(
+      this._path(status, job.id, '.json'),
+      JSON.stringify(job)
+    );
+  }
+
+  private async _readJob(
+    status: 'pending' | 'done' | 'dead_letter',
+    id: string
+  ): Promise<AsyncJob | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this._path(status, id, '.json'), 'utf8');
+    } catch (e) {
+      if ((e as Error).code === 'ENOENT') {
+        return;
+      }
+      throw e;
+    }
+    return JSON.parse(content);
+  }
+}
+
+/**
+ * Write to a temporary file and rename it, so that a crash in between never
+ * leaves a partially written file.
+ */
+async function writeFileAtomic(filePath: string, data: string | Buffer) {
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, data);
+  await fs.rename(tmpPath, filePath);
+}
+
+async function unlinkIfExists(filePath: string) {
+  try {
+    await fs.unlink(filePath);
+  } catch (e) {
+    if ((e as Error).code !== 'ENOENT') {
+      throw e;
+    }
+  }
+}
@@ -1,11 +1,14 @@
 import EventEmitter from 'events';
 import os from 'os';
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
 import _ from 'lodash';
 import { DataFlowController } from './data_flow_controller';
+import { RpcError } from '#self/lib/rpc/error';
+import * as root from '#self/proto/root';
 
 const logger = require('#self/lib/logger').get('system circuit breaker');
 
-function compare(lhs: number, rhs: number) {
+function compare(lhs: number, rhs: number): 0 | 1 | -1 {
   if (lhs < rhs) {
     return -1;
   }
@@ -19,47 +22,100 @@ function sum(arr: number[]) {
   return _.reduce(arr, (prev, curr) => prev + curr, 0);
 }
 
+/**
+ * Rejection of the opened system circuit breaker.
+ */
+export class SystemCircuitBreakerOpenedError extends RpcError {
+  name = 'SystemCircuitBreakerOpenedError';
+}
+
+export enum CircuitBreakerState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half-open',
+}
+
 /**
  * A structure that maintain a open/close state.
+ *
+ * The breaker opens after `openThreshold` consecutive exceeded checks. An
+ * opened breaker turns into half-open after `closeThreshold` consecutive
+ * recovered checks, and traffic is allowed again. A half-open breaker opens
+ * immediately on any exceeded check, or closes after `halfOpenCheckCount`
+ * consecutive recovered checks.
  */
 class CircuitBreaker extends EventEmitter {
-  opened = false;
+  state = CircuitBreakerState.CLOSED;
   thresholdConsecutiveCheckTimes = 0;
+  reason = '';
 
-  constructor(private checker: Checker, public name: string) {
+  constructor(
+    private checker: Checker,
+    public name: string,
+    private thresholds: Required<CircuitBreakerThresholds>
+  ) {
     super();
   }
 
+  get opened() {
+    return this.state === CircuitBreakerState.OPEN;
+  }
+
   check() {
-    const res = this.checker();
-    if (this.opened) {
-      if (res >= 0) {
-        return;
-      }
-      this.thresholdConsecutiveCheckTimes++;
-      if (this.thresholdConsecutiveCheckTimes >= 3) {
-        this.opened = false;
-        this.thresholdConsecutiveCheckTimes = 0;
-        logger.info(
-          `circuit breaker [${this.name}] status change to [${this.opened}]`
-        );
-        this.emit('status-changed', this.opened);
+    const { result, reason } = this.checker();
+    switch (this.state) {
+      case CircuitBreakerState.OPEN: {
+        if (result >= 0) {
+          this.thresholdConsecutiveCheckTimes = 0;
+          return;
+        }
+        this.thresholdConsecutiveCheckTimes++;
+        if (
+          this.thresholdConsecutiveCheckTimes >= this.thresholds.closeThreshold
+        ) {
+          this.#setState(CircuitBreakerState.HALF_OPEN, '');
+        }
+        break;
       }
-    } else {
-      if (res <= 0) {
-        return;
+      case CircuitBreakerState.HALF_OPEN: {
+        if (result > 0) {
+          this.#setState(CircuitBreakerState.OPEN, reason);
+          return;
+        }
+        this.thresholdConsecutiveCheckTimes++;
+        if (
+          this.thresholdConsecutiveCheckTimes >=
+          this.thresholds.halfOpenCheckCount
+        ) {
+          this.#setState(CircuitBreakerState.CLOSED, '');
+        }
+        break;
       }
-      this.thresholdConsecutiveCheckTimes++;
-      if (this.thresholdConsecutiveCheckTimes >= 5) {
-        this.opened = true;
-        this.thresholdConsecutiveCheckTimes = 0;
-        logger.info(
-          `circuit breaker [${this.name}] status change to [${this.opened}]`
-        );
-        this.emit('status-changed', this.opened);
+      default: {
+        if (result <= 0) {
+          this.thresholdConsecutiveCheckTimes = 0;
+          return;
+        }
+        this.thresholdConsecutiveCheckTimes++;
+        if (
+          this.thresholdConsecutiveCheckTimes >= this.thresholds.openThreshold
+        ) {
+          this.#setState(CircuitBreakerState.OPEN, reason);
+        }
       }
     }
   }
+
+  #setState(state: CircuitBreakerState, reason: string) {
+    this.state = state;
+    this.reason = reason;
+    this.thresholdConsecutiveCheckTimes = 0;
+    logger.info(
+      `circuit breaker [${this.name}] status change to [${this.state}]`,
+      reason
+    );
+    this.emit('status-changed', this.state);
+  }
 }
 
 /**
@@ -72,18 +128,30 @@ export class SystemCircuitBreaker extends EventEmitter {
   breakers: CircuitBreaker[];
   checkInterval: NodeJS.Timer | undefined;
   #opened: boolean;
+  #openedBreakerNames = '';
+  #eventLoopDelayHistogram: IntervalHistogram | undefined;
 
   #statusChanged = () => {
-    this.#opened = this.breakers.some(breaker => {
+    const opened = this.breakers.some(breaker => {
       return breaker.opened;
     });
+    const openedBreakerNames = this.openedBreakers.map(it => it.name).join(',');
 
     let current = '';
     this.breakers.forEach(breaker => {
-      current += ` (name: ${breaker.name}, status: ${breaker.opened})`;
+      current += ` (name: ${breaker.name}, status: ${breaker.state})`;
     });
-
     logger.info('system circuit breaker status change, current is:', current);
+
+    // Half-open and closed breakers are both passing traffic.
+    if (
+      opened === this.#opened &&
+      openedBreakerNames === this.#openedBreakerNames
+    ) {
+      return;
+    }
+    this.#opened = opened;
+    this.#openedBreakerNames = openedBreakerNames;
     this.emit('status-changed', this.opened);
   };
 
@@ -98,7 +166,7 @@ export class SystemCircuitBreaker extends EventEmitter {
   _getPendingRequestCount() {
     return sum(
       Array.from(this.#dataFlowController.brokers.values()).map(
-        it => it.requestQueue.length
+        it => it.requestQueue.length + it.rateLimitWaitingCount
       )
     );
   }
@@ -107,23 +175,77 @@ export class SystemCircuitBreaker extends EventEmitter {
     return os.loadavg()[0];
   }
 
-  #checkRequestCount = () => {
+  _getFreeMemory() {
+    return os.freemem();
+  }
+
+  /**
+   * The p99 event loop delay in milliseconds since last check.
+   */
+  _getEventLoopDelay() {
+    const histogram = this.#eventLoopDelayHistogram;
+    if (histogram == null) {
+      return 0;
+    }
+    const delay = histogram.percentile(99) / 1e6;
+    histogram.reset();
+    return delay;
+  }
+
+  #checkRequestCount: Checker = () => {
     const activeRequestCount = this._getActiveRequestCount();
     const pendingRequestCount = this._getPendingRequestCount();
-    return compare(
-      activeRequestCount + pendingRequestCount,
-      this.#config.requestCountLimit
-    );
+    const requestCount = activeRequestCount + pendingRequestCount;
+    return {
+      result: compare(requestCount, this.#config.requestCountLimit),
+      reason: `request count ${requestCount} exceeded limit ${
+        this.#config.requestCountLimit
+      }`,
+    };
   };
 
-  #checkPendingRequestCount = () => {
+  #checkPendingRequestCount: Checker = () => {
     const pendingRequestCount = this._getPendingRequestCount();
-    return compare(pendingRequestCount, this.#config.pendingRequestCountLimit);
+    return {
+      result: compare(
+        pendingRequestCount,
+        this.#config.pendingRequestCountLimit
+      ),
+      reason: `pending request count ${pendingRequestCount} exceeded limit ${
+        this.#config.pendingRequestCountLimit
+      }`,
+    };
   };
 
-  #checkSystemLoad = () => {
+  #checkSystemLoad: Checker = () => {
     const load1 = this._getOsLoad1();
-    return compare(load1, this.#config.systemLoad1Limit);
+    return {
+      result: compare(load1, this.#config.systemLoad1Limit),
+      reason: `system load1 ${load1.toFixed(2)} exceeded limit ${
+        this.#config.systemLoad1Limit
+      }`,
+    };
+  };
+
+  #checkFreeMemory: Checker = () => {
+    const freeMemory = this._getFreeMemory();
+    return {
+      // Less free memory is worse.
+      result: compare(this.#config.freeMemoryLimit!, freeMemory),
+      reason: `free memory ${freeMemory} bytes below limit ${
+        this.#config.freeMemoryLimit
+      } bytes`,
+    };
+  };
+
+  #checkEventLoopDelay: Checker = () => {
+    const delay = this._getEventLoopDelay();
+    return {
+      result: compare(delay, this.#config.eventLoopDelayLimit!),
+      reason: `event loop delay ${delay.toFixed(2)}ms exceeded limit ${
+        this.#config.eventLoopDelayLimit
+      }ms`,
+    };
   };
 
   #check = () => {
@@ -140,15 +262,27 @@ export class SystemCircuitBreaker extends EventEmitter {
     this.checkInterval = undefined;
     this.#opened = false;
 
-    const breakerSet = [
+    const thresholds: Required<CircuitBreakerThresholds> = {
+      openThreshold: config.openThreshold ?? 5,
+      closeThreshold: config.closeThreshold ?? 3,
+      halfOpenCheckCount: config.halfOpenCheckCount ?? 3,
+    };
+
+    const breakerSet: [string, Checker][] = [
       ['request-count', this.#checkRequestCount],
       ['pending-request-count', this.#checkPendingRequestCount],
       ['system-load', this.#checkSystemLoad],
-    ] as const;
+    ];
+    // Limits that are not positive disable the checker.
+    if (config.freeMemoryLimit! > 0) {
+      breakerSet.push(['free-memory', this.#checkFreeMemory]);
+    }
+    if (config.eventLoopDelayLimit! > 0) {
+      breakerSet.push(['event-loop-delay', this.#checkEventLoopDelay]);
+    }
 
     this.breakers = breakerSet.map(([name, checker]) => {
-      const breaker = new CircuitBreaker(checker, name);
-      // TODO: exposes change reason (i.e. which subsidiary state has been changed).
+      const breaker = new CircuitBreaker(checker, name, thresholds);
       breaker.on('status-changed', this.#statusChanged);
       return breaker;
     });
@@ -158,8 +292,46 @@ export class SystemCircuitBreaker extends EventEmitter {
     return this.#opened;
   }
 
+  /**
+   * Opened if any of the subsidiary breakers is opened, otherwise half-open if
+   * any of them is half-open.
+   */
+  get state() {
+    if (this.opened) {
+      return CircuitBreakerState.OPEN;
+    }
+    if (this.breakers.some(it => it.state === CircuitBreakerState.HALF_OPEN)) {
+      return CircuitBreakerState.HALF_OPEN;
+    }
+    return CircuitBreakerState.CLOSED;
+  }
+
+  /**
+   * The opened subsidiary breakers and the reasons they were opened.
+   */
+  get openedBreakers(): root.noslated.ICircuitBreakerStatus[] {
+    return this.breakers
+      .filter(it => it.opened)
+      .map(it => ({ name: it.name, reason: it.reason }));
+  }
+
+  toJSON(): root.noslated.data.ISystemCircuitBreakerStatusBroadcast {
+    return {
+      opened: this.opened,
+      breakers: this.openedBreakers,
+      timestamp: Date.now(),
+    };
+  }
+
   start() {
-    this.checkInterval = setInterval(this.#check, 1000);
+    if (this.#config.eventLoopDelayLimit! > 0) {
+      this.#eventLoopDelayHistogram = monitorEventLoopDelay();
+      this.#eventLoopDelayHistogram.enable();
+    }
+    this.checkInterval = setInterval(
+      this.#check,
+      this.#config.checkInterval ?? 1000
+    );
   }
 
   /**
@@ -167,13 +339,28 @@ export class SystemCircuitBreaker extends EventEmitter {
    */
   close() {
     clearInterval(this.checkInterval);
+    this.#eventLoopDelayHistogram?.disable();
   }
 }
 
-interface SystemCircuitBreakerConfig {
+interface CircuitBreakerThresholds {
+  openThreshold?: number;
+  closeThreshold?: number;
+  halfOpenCheckCount?: number;
+}
+
+interface SystemCircuitBreakerConfig extends CircuitBreakerThresholds {
   requestCountLimit: number;
   pendingRequestCountLimit: number;
   systemLoad1Limit: number;
+  freeMemoryLimit?: number;
+  eventLoopDelayLimit?: number;
+  checkInterval?: number;
+}
+
+interface CheckResult {
+  result: 0 | 1 | -1;
+  reason: string;
 }
 
-type Checker = () => 0 | 1 | -1;
+type Checker = () => CheckResult;
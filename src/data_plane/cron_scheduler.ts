@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import { Metadata } from '#self/delegate/request_response';
+import { Clock, systemClock, TimerHandle } from '#self/lib/clock';
+import { CronExpression } from '#self/lib/cron';
+import {
+  FunctionCronTrigger,
+  RawFunctionProfile,
+} from '#self/lib/json/function_profile';
+import { DataFlowController } from './data_flow_controller';
+
+const logger = require('#self/lib/logger').get('cron scheduler');
+
+const kDefaultTimeout = 10_000;
+// Timers overflow with delays longer than 2^31 - 1 milliseconds.
+const kMaxTimerDelay = 2 ** 31 - 1;
+
+interface ScheduledTrigger {
+  functionName: string;
+  trigger: FunctionCronTrigger;
+  expression: CronExpression;
+  timer: TimerHandle | null;
+  runningCount: number;
+}
+
+/**
+ * Invokes functions on the cron triggers declared in their profiles.
+ */
+export class CronScheduler {
+  private _triggers = new Map<string, ScheduledTrigger>();
+
+  constructor(
+    private delegate: Pick<DataFlowController, 'invoke'>,
+    private clock: Clock = systemClock
+  ) {}
+
+  get size() {
+    return this._triggers.size;
+  }
+
+  /**
+   * Schedule triggers of the profiles. Unchanged triggers keep their schedules,
+   * while triggers no longer declared are cancelled, runs in flight are not
+   * affected.
+   */
+  setProfiles(profiles: RawFunctionProfile[]) {
+    const triggers = new Map<string, ScheduledTrigger>();
+    for (const profile of profiles) {
+      for (const trigger of profile.triggers ?? []) {
+        if (trigger.type !== 'cron') {
+          continue;
+        }
+        const key = `${profile.name}:${JSON.stringify(trigger)}`;
+        if (triggers.has(key)) {
+          continue;
+        }
+        const existing = this._triggers.get(key);
+        if (existing) {
+          this._triggers.delete(key);
+          triggers.set(key, existing);
+          continue;
+        }
+
+        let expression: CronExpression;
+        try {
+          expression = CronExpression.parse(trigger.schedule);
+        } catch (e) {
+          logger.warn('ignored cron trigger of function(%s).', profile.name, e);
+          continue;
+        }
+        const item: ScheduledTrigger = {
+          functionName: profile.name,
+          trigger,
+          expression,
+          timer: null,
+          runningCount: 0,
+        };
+        triggers.set(key, item);
+        this._schedule(item);
+      }
+    }
+
+    for (const item of this._triggers.values()) {
+      this.clock.clearTimeout(item.timer);
+      item.timer = null;
+    }
+    this._triggers = triggers;
+  }
+
+  close() {
+    this.setProfiles([]);
+  }
+
+  private _schedule(item: ScheduledTrigger) {
+    const now = this.clock.now();
+    let next: number;
+    try {
+      next = item.expression.next(now);
+    } catch (e) {
+      logger.warn(
+        'cron trigger(%s) of function(%s) will never fire.',
+        item.trigger.schedule,
+        item.functionName,
+        e
+      );
+      return;
+    }
+    this._arm(item, next);
+  }
+
+  private _arm(item: ScheduledTrigger, scheduledAt: number) {
+    const delay = scheduledAt - this.clock.now();
+    item.timer = this.clock.setTimeout(() => {
+      if (this.clock.now() < scheduledAt) {
+        this._arm(item, scheduledAt);
+        return;
+      }
+      this._schedule(item);
+      this._fire(item);
+    }, Math.min(Math.max(delay, 0), kMaxTimerDelay));
+  }
+
+  private async _fire(item: ScheduledTrigger) {
+    const { functionName, trigger } = item;
+    if (trigger.skipOverlapping && item.runningCount > 0) {
+      logger.info(
+        'cron trigger(%s) of function(%s) skipped, the previous run has not finished.',
+        trigger.schedule,
+        functionName
+      );
+      return;
+    }
+
+    const metadata = new Metadata({
+      method: 'POST',
+      headers: (trigger.headers ?? []).map(it => [it.key, it.value]),
+      deadline: this.clock.now() + (trigger.timeout || kDefaultTimeout),
+      requestId: crypto.randomUUID(),
+    });
+    const start = this.clock.now();
+    item.runningCount++;
+    try {
+      const response = await this.delegate.invoke(
+        functionName,
+        Buffer.from(trigger.payload ?? ''),
+        metadata
+      );
+      // The response is not used, wait until it has been sent.
+      await new Promise((resolve, reject) => {
+        response.on('end', resolve);
+        response.on('error', reject);
+        response.resume();
+      });
+      logger.info(
+        '[%s] cron trigger(%s) of function(%s) responded with status %d in %dms.',
+        metadata.requestId,
+        trigger.schedule,
+        functionName,
+        response.status,
+        this.clock.now() - start
+      );
+    } catch (e) {
+      logger.warn(
+        '[%s] cron trigger(%s) of function(%s) failed.',
+        metadata.requestId,
+        trigger.schedule,
+        functionName,
+        e
+      );
+    } finally {
+      item.runningCount--;
+    }
+  }
+}
@@ -11,20 +11,40 @@ import {
 import { DCheck, getCurrentPlaneId, setDifference } from '#self/lib/util';
 import { InspectorAgent } from '#self/diagnostics/inspector_agent';
 import { RpcError, RpcStatus } from '#self/lib/rpc/error';
-import { SystemCircuitBreaker } from './circuit_breaker';
+import {
+  SystemCircuitBreaker,
+  SystemCircuitBreakerOpenedError,
+} from './circuit_breaker';
 import { Worker, WorkerBroker, ErrorWithInvokeDetail } from './worker_broker';
-import { ServiceProfileItem, ServiceSelector } from './service_selector';
+import {
+  DefaultServiceSelector,
+  ServiceProfileItem,
+  ServiceSelector,
+} from './service_selector';
 import { getMeter } from '#self/lib/telemetry/otel';
 import {
+  DataPlaneMetricAttributes,
   DataPlaneMetrics,
   PlaneMetricAttributes,
+  TraceAttributes,
+  TraceSpans,
 } from '#self/lib/telemetry/semantic_conventions';
+import {
+  endSpan,
+  endSpanOnClose,
+  injectTraceContext,
+  startSpan,
+} from '#self/lib/telemetry/trace';
 import { WorkerTelemetry } from './worker_telemetry';
+import { DataPlaneTelemetry } from './data_plane_telemetry';
 import { NamespaceResolver } from './namespace_resolver';
 import { Config } from '#self/config';
-import { Meter } from '@opentelemetry/api';
+import { Meter, MetricAttributes } from '@opentelemetry/api';
 import * as root from '#self/proto/root';
-import { RawFunctionProfile } from '#self/lib/json/function_profile';
+import {
+  FunctionAsyncInvokeProfile,
+  RawFunctionProfile,
+} from '#self/lib/json/function_profile';
 import { Readable } from 'stream';
 import { Metadata, TriggerResponse } from '#self/delegate/request_response';
 import { WorkerStatusReport, kDefaultWorkerName } from '#self/lib/constants';
@@ -33,12 +53,26 @@ import { DependencyContext } from '#self/lib/dependency_context';
 import { EventBus } from '#self/lib/event-bus';
 import { events } from './events';
 import { DataPlaneInspectorAgentDelegate } from './inspector_agent_delegate';
+import { ResponseCacheResult } from './response_cache';
+import {
+  createPayloadTooLargeError,
+  meterRequestBody,
+  MeteredRequestBody,
+  PayloadTooLargeError,
+  raceRequestBody,
+} from './payload_limit';
+import { isReplayable } from './retry_policy';
+import { teeMirrorInput } from './mirror';
 import {
   RequestLogger,
+  AccessLogDetail,
   RequestTiming,
   TriggerErrorStatus,
+  getErrorCode,
 } from './request_logger';
 import cloneable from 'cloneable-readable';
+import { AsyncInvoker, AsyncInvokeType } from './async_invoker';
+import { CronScheduler } from './cron_scheduler';
 
 const logger = require('#self/lib/logger').get('data flow controller');
 
@@ -48,9 +82,13 @@ const logger = require('#self/lib/logger').get('data flow controller');
 export class DataFlowController extends BaseOf(EventEmitter) {
   #invokeCounter;
   #invokeDurationHistogram;
+  #responseCacheHitCounter;
+  #responseCacheMissCounter;
 
   queuedRequestCounter;
   queuedRequestDurationHistogram;
+  rateLimitedRequestCounter;
+  circuitBreakerRejectedRequestCounter;
 
   meter: Meter;
   delegateSockPath: string;
@@ -67,8 +105,11 @@ export class DataFlowController extends BaseOf(EventEmitter) {
   orphanBrokerCleanInterval: NodeJS.Timer | null;
 
   telemetry: WorkerTelemetry;
+  dataPlaneTelemetry: DataPlaneTelemetry;
 
   requestLogger: RequestLogger;
+  asyncInvoker: AsyncInvoker;
+  cronScheduler: CronScheduler;
 
   constructor(public host: DataPlaneHost, public config: Config) {
     super();
@@ -82,6 +123,14 @@ export class DataFlowController extends BaseOf(EventEmitter) {
       DataPlaneMetrics.INVOKE_DURATION,
       {}
     );
+    this.#responseCacheHitCounter = this.meter.createCounter(
+      DataPlaneMetrics.RESPONSE_CACHE_HIT_COUNT,
+      {}
+    );
+    this.#responseCacheMissCounter = this.meter.createCounter(
+      DataPlaneMetrics.RESPONSE_CACHE_MISS_COUNT,
+      {}
+    );
 
     this.queuedRequestCounter = this.meter.createCounter(
       DataPlaneMetrics.QUEUED_REQUEST_COUNT,
@@ -91,6 +140,14 @@ export class DataFlowController extends BaseOf(EventEmitter) {
       DataPlaneMetrics.QUEUED_REQUEST_DURATION,
       {}
     );
+    this.rateLimitedRequestCounter = this.meter.createCounter(
+      DataPlaneMetrics.RATE_LIMITED_REQUEST_COUNT,
+      {}
+    );
+    this.circuitBreakerRejectedRequestCounter = this.meter.createCounter(
+      DataPlaneMetrics.CIRCUIT_BREAKER_REJECTED_REQUEST_COUNT,
+      {}
+    );
 
     const delegateSockPath = (this.delegateSockPath = path.join(
       this.config.dirs.noslatedSock,
@@ -126,6 +183,10 @@ export class DataFlowController extends BaseOf(EventEmitter) {
       this,
       this.config.systemCircuitBreaker
     );
+    this.circuitBreaker.on(
+      'status-changed',
+      this.#onCircuitBreakerStatusChanged
+    );
     this.serviceSelector = new ServiceSelector();
 
     this.delegate.on('bind', this.#onBind);
@@ -134,8 +195,14 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     this.orphanBrokerCleanInterval = null;
 
     this.telemetry = new WorkerTelemetry(this.meter, this.delegate, this);
+    this.dataPlaneTelemetry = new DataPlaneTelemetry(this.meter, this);
 
     this.requestLogger = new RequestLogger(this.config);
+    this.asyncInvoker = new AsyncInvoker(
+      this,
+      this.config.dataPlane.asyncInvoke
+    );
+    this.cronScheduler = new CronScheduler(this);
   }
 
   getResourceUsages() {
@@ -228,6 +295,10 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     return closed;
   }
 
+  #onCircuitBreakerStatusChanged = () => {
+    this.host.broadcastSystemCircuitBreakerStatus(this.circuitBreaker);
+  };
+
   /**
    * Function that be called when a worker disconnected on delegate.
    */
@@ -334,9 +405,13 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     for (const [key, broker] of this.brokers.entries()) {
       const profile = this.profileManager.getProfile(broker.name);
       if (profile) {
+        // The function may have been removed and registered again.
+        broker.resume();
         broker.updateProfile(profile);
         continue;
       }
+      // The function has been removed, stop accepting new invocations.
+      broker.drain(this.config.dataPlane.drainGracePeriod);
       if (!broker.workerCount) {
         cleanedKeys.push(key);
         broker.close();
@@ -356,6 +431,7 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     this.orphanBrokerCleanInterval = setInterval(this.cleanOrphanBrokers, 1000);
 
     this.circuitBreaker.start();
+    await this.asyncInvoker.start();
 
     logger.info(`delegate listened at ${this.delegateSockPath}.`);
   }
@@ -370,7 +446,15 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     }
 
     this.circuitBreaker.close();
-    Array.from(this.brokers.values()).map(it => it.close());
+    this.asyncInvoker.close();
+    this.cronScheduler.close();
+    const gracePeriod = this.config.dataPlane.drainGracePeriod;
+    await Promise.all(
+      Array.from(this.brokers.values()).map(async it => {
+        await it.drain(gracePeriod);
+        await it.close();
+      })
+    );
 
     if (this.inspectorAgent) await this.inspectorAgent.close();
     this.delegate.close();
@@ -392,6 +476,12 @@ export class DataFlowController extends BaseOf(EventEmitter) {
 
     await this.profileManager.setProfiles(profile);
 
+    // Triggers are scheduled by the first data plane only, so that each run
+    // fires once.
+    if (getCurrentPlaneId() === 0) {
+      this.cronScheduler.setProfiles(this.profileManager.getProfiles());
+    }
+
     // 过期的 namespace 延后移除
     toRemove.forEach(ns => {
       this.namespaceResolver.unregister(ns);
@@ -433,13 +523,12 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     name: string,
     inputStream: Buffer | Readable,
     metadata: Metadata,
-    { serviceName = '' }: InvokeContext = {}
+    { serviceName = '', mirror = false }: InvokeContext = {}
   ): Promise<TriggerResponse> {
-    if (this.circuitBreaker.opened) {
-      throw new RpcError('System circuit breaker opened.', {
-        code: RpcStatus.FAILED_PRECONDITION,
-      });
-    }
+    this.#checkCircuitBreaker({
+      [PlaneMetricAttributes.FUNCTION_NAME]: name,
+      [PlaneMetricAttributes.SERVICE_NAME]: serviceName,
+    });
     const broker = this.getBroker(name, {
       inspect: this.functionConfigBag?.get(name)?.getUseInspector(),
     });
@@ -448,32 +537,72 @@ export class DataFlowController extends BaseOf(EventEmitter) {
 
     let resp: TriggerResponse | undefined = undefined;
     let triggerError: ErrorWithInvokeDetail | undefined = undefined;
+    let cacheHit = false;
+    let requestBody: MeteredRequestBody | undefined;
+
+    const span = startSpan(TraceSpans.DATA_PLANE_INVOKE, metadata.headers, {
+      attributes: {
+        [PlaneMetricAttributes.FUNCTION_NAME]: name,
+        [PlaneMetricAttributes.SERVICE_NAME]: serviceName,
+        [DataPlaneMetricAttributes.MIRROR]: mirror,
+        [TraceAttributes.REQUEST_ID]: metadata.requestId,
+      },
+    });
+    metadata = injectTraceContext(metadata, span);
 
     try {
-      resp = await broker.invoke(inputStream, metadata);
+      const limits = broker.limits;
+      // Bytes received are only logged in json format.
+      if (limits?.maxRequestBytes || this.requestLogger.format === 'json') {
+        requestBody = meterRequestBody(inputStream, limits?.maxRequestBytes);
+        inputStream = requestBody.body;
+      }
+      let future = this.#invokeBroker(broker, inputStream, metadata);
+      if (limits?.maxRequestBytes && inputStream instanceof Readable) {
+        future = raceRequestBody(future, inputStream);
+      }
+      const result = await future;
+      resp = result.response;
+      cacheHit = result.status === 'hit';
+      endSpanOnClose(span, resp);
+      if (result.status !== 'bypass') {
+        const counter = cacheHit
+          ? this.#responseCacheHitCounter
+          : this.#responseCacheMissCounter;
+        counter.add(1, {
+          [PlaneMetricAttributes.FUNCTION_NAME]: name,
+        });
+      }
       return resp;
     } catch (error: unknown) {
       triggerError = error as ErrorWithInvokeDetail;
+      endSpan(span, error);
 
       throw error;
     } finally {
-      this.requestLog(
-        triggerError,
-        resp,
-        name,
-        metadata,
-        startTime,
-        serviceName
-      );
-      const endTime = Date.now();
-      this.#invokeCounter.add(1, {
-        [PlaneMetricAttributes.FUNCTION_NAME]: name,
-        [PlaneMetricAttributes.SERVICE_NAME]: serviceName,
+      this.requestLog(triggerError, resp, name, metadata, startTime, {
+        serviceName,
+        mirror,
+        cacheHit,
+        requestBody,
+        maxResponseBytes: broker.limits?.maxResponseBytes,
       });
-      this.#invokeDurationHistogram.record(endTime - startTime, {
+      const endTime = Date.now();
+      const attributes: MetricAttributes = {
         [PlaneMetricAttributes.FUNCTION_NAME]: name,
         [PlaneMetricAttributes.SERVICE_NAME]: serviceName,
-      });
+      };
+      if (mirror) {
+        attributes[DataPlaneMetricAttributes.MIRROR] = true;
+      }
+      if (resp) {
+        attributes[DataPlaneMetricAttributes.STATUS_CODE] = resp.status;
+      } else {
+        attributes[DataPlaneMetricAttributes.ERROR_CLASS] =
+          getErrorCode(triggerError);
+      }
+      this.#invokeCounter.add(1, attributes);
+      this.#invokeDurationHistogram.record(endTime - startTime, attributes);
     }
   }
 
@@ -483,11 +612,31 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     invokeName: string,
     metadata: Metadata,
     start: number,
-    serviceName?: string
+    {
+      serviceName,
+      mirror = false,
+      cacheHit = false,
+      requestBody,
+      maxResponseBytes,
+    }: RequestLogContext = {}
   ) {
     const now = Date.now();
     const ttfb = now - start;
-    invokeName = serviceName ? `${serviceName}:${invokeName}` : invokeName;
+    const detail: AccessLogDetail = {
+      serviceName,
+      functionName: invokeName,
+      mirror,
+      cacheHit,
+      coldStart: response?.coldStart,
+      get bytesReceived() {
+        return requestBody?.byteLength;
+      },
+    };
+    if (mirror) {
+      invokeName = `${serviceName}[mirror]:${invokeName}`;
+    } else if (serviceName) {
+      invokeName = `${serviceName}:${invokeName}`;
+    }
 
     if (error) {
       // trigger error
@@ -501,7 +650,9 @@ export class DataFlowController extends BaseOf(EventEmitter) {
           ttfb,
           queueing: (error as ErrorWithInvokeDetail).queueing || 0,
           rt: ttfb,
-        }
+        },
+        0,
+        detail
       );
 
       return;
@@ -513,9 +664,14 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     const cloned = cloneable(response);
 
     let bytesSent = 0;
+    let limitError: RpcError | undefined;
 
     cloned.on('data', chunk => {
       bytesSent += chunk.byteLength;
+      if (maxResponseBytes && bytesSent > maxResponseBytes && !limitError) {
+        limitError = createPayloadTooLargeError('Response', maxResponseBytes);
+        response.destroy(limitError);
+      }
     });
 
     cloned.on('end', () => {
@@ -529,7 +685,8 @@ export class DataFlowController extends BaseOf(EventEmitter) {
           queueing: response!.queueing || 0,
           rt: Date.now() - start,
         },
-        bytesSent
+        bytesSent,
+        detail
       );
     });
 
@@ -540,13 +697,16 @@ export class DataFlowController extends BaseOf(EventEmitter) {
         invokeName,
         response.workerName || kDefaultWorkerName,
         metadata,
-        TriggerErrorStatus.ABORT,
+        e === limitError
+          ? TriggerErrorStatus.PAYLOAD_TOO_LARGE
+          : TriggerErrorStatus.ABORT,
         {
           ttfb,
           queueing: response.queueing || 0,
           rt: Date.now() - start,
         },
-        bytesSent
+        bytesSent,
+        detail
       );
     });
   }
@@ -558,7 +718,8 @@ export class DataFlowController extends BaseOf(EventEmitter) {
     metadata: Metadata,
     status: number,
     timing: RequestTiming,
-    bytesSent?: number
+    bytesSent?: number,
+    detail: AccessLogDetail = {}
   ) {
     this.requestLogger.error(invokeName, workerName, error, metadata.requestId);
     this.requestLogger.access(
@@ -567,36 +728,184 @@ export class DataFlowController extends BaseOf(EventEmitter) {
       metadata,
       String(status),
       timing,
-      bytesSent ?? 0
+      bytesSent ?? 0,
+      { ...detail, error }
     );
   }
 
-  async invokeService(
+  /**
+   * Retry policy of asynchronous invocations, services follow the policy of
+   * the function selected for the request.
+   */
+  getAsyncInvokeProfile(
+    type: AsyncInvokeType,
     name: string,
-    inputStream: Buffer | Readable,
     metadata: Metadata
-  ) {
+  ): FunctionAsyncInvokeProfile | undefined {
+    if (type === 'invokeService') {
+      const target = this.serviceSelector.selectAll(name, metadata)[0];
+      if (target == null) {
+        return;
+      }
+      name = target.functionName;
+    }
+    return this.profileManager.getProfile(name)?.asyncInvoke;
+  }
+
+  #checkCircuitBreaker(attributes: MetricAttributes) {
     if (this.circuitBreaker.opened) {
-      throw new RpcError('System circuit breaker opened.', {
-        code: RpcStatus.FAILED_PRECONDITION,
+      this.circuitBreakerRejectedRequestCounter.add(1, {
+        ...attributes,
+        [DataPlaneMetricAttributes.CIRCUIT_BREAKER]: 'system',
       });
+      throw new SystemCircuitBreakerOpenedError(
+        'System circuit breaker opened.',
+        {
+          code: RpcStatus.FAILED_PRECONDITION,
+        }
+      );
     }
+  }
 
-    const labels = this.serviceSelector.select(name);
-    if (labels == null) {
-      throw new RpcError('Service not found.', { code: RpcStatus.NOT_FOUND });
+  #invokeBroker(
+    broker: WorkerBroker,
+    inputStream: Buffer | Readable,
+    metadata: Metadata
+  ): Promise<ResponseCacheResult> {
+    const cache = broker.responseCache;
+    if (cache == null) {
+      return broker
+        .invoke(inputStream, metadata)
+        .then(response => ({ response, status: 'bypass' }));
     }
+    return cache.fetch(metadata, it => broker.invoke(inputStream, it));
+  }
 
-    return this.invoke(labels.functionName, inputStream, metadata, {
-      serviceName: name,
+  async invokeService(
+    name: string,
+    inputStream: Buffer | Readable,
+    metadata: Metadata
+  ) {
+    this.#checkCircuitBreaker({
+      [PlaneMetricAttributes.SERVICE_NAME]: name,
     });
+
+    const targets = this.serviceSelector.selectAll(name, metadata);
+    if (targets.length === 0) {
+      throw new RpcError('Service not found.', { code: RpcStatus.NOT_FOUND });
+    }
+
+    const shadow = this.serviceSelector.selectMirror(name);
+    if (shadow) {
+      inputStream = this.#mirror(name, shadow, inputStream, metadata);
+    }
+
+    for (let idx = 0; ; idx++) {
+      const { functionName } = targets[idx];
+      try {
+        return await this.invoke(functionName, inputStream, metadata, {
+          serviceName: name,
+        });
+      } catch (e) {
+        if (idx === targets.length - 1 || !isFailoverError(e, inputStream)) {
+          throw e;
+        }
+        logger.warn(
+          '[%s] service(%s) failed over from function(%s) to function(%s).',
+          metadata.requestId,
+          name,
+          functionName,
+          targets[idx + 1].functionName,
+          e
+        );
+      }
+    }
+  }
+
+  /**
+   * Send a copy of the request to the shadow function. Streamed request
+   * bodies are teed, so the returned input should be used for the actual
+   * invocation instead.
+   */
+  #mirror(
+    serviceName: string,
+    shadow: DefaultServiceSelector,
+    inputStream: Buffer | Readable,
+    metadata: Metadata
+  ): Buffer | Readable {
+    const { primary, shadow: shadowInput } = teeMirrorInput(inputStream);
+
+    this.invoke(shadow.functionName, shadowInput, metadata, {
+      serviceName,
+      mirror: true,
+    }).then(
+      resp => {
+        resp.on('error', () => {});
+        resp.resume();
+      },
+      e => {
+        // Release the buffered copy of the request body.
+        if (shadowInput instanceof Readable) {
+          shadowInput.destroy();
+        }
+        logger.debug(
+          '[%s] service(%s) failed to mirror to function(%s).',
+          metadata.requestId,
+          serviceName,
+          shadow.functionName,
+          e
+        );
+      }
+    );
+    return primary;
   }
 }
 
+const kFailoverErrorCodes = [
+  // The function is not registered.
+  RpcStatus.NOT_FOUND,
+  // Rate limited or the request queue is full.
+  RpcStatus.RESOURCE_EXHAUSTED,
+  // Circuit breaker opened.
+  RpcStatus.FAILED_PRECONDITION,
+  // No worker could be started or shutting down.
+  RpcStatus.UNAVAILABLE,
+];
+
+/**
+ * Whether the error happened before any bytes reached a worker, so that the
+ * request can be sent to the next target of failover services. Streamed
+ * requests can not be sent again once they have been read from.
+ */
+function isFailoverError(e: unknown, inputStream: Buffer | Readable) {
+  if (!(e instanceof RpcError) || e instanceof PayloadTooLargeError) {
+    return false;
+  }
+  return kFailoverErrorCodes.includes(e.code) && isReplayable(inputStream);
+}
+
 interface RegisterWorkerOptions {
   inspect?: boolean;
 }
 
+interface RequestLogContext {
+  serviceName?: string;
+  mirror?: boolean;
+  cacheHit?: boolean;
+  /**
+   * Bytes of the request body are read when the access log is written.
+   */
+  requestBody?: MeteredRequestBody;
+  /**
+   * The response is aborted once the body exceeds the limit.
+   */
+  maxResponseBytes?: number;
+}
+
 interface InvokeContext {
   serviceName?: string;
+  /**
+   * Whether the invocation is a mirrored copy of a service request.
+   */
+  mirror?: boolean;
 }
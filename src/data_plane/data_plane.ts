@@ -7,6 +7,7 @@ import { DataPlaneHost } from './data_plane_host';
 import { getCurrentPlaneId } from '#self/lib/util';
 import { Logger, loggers } from '#self/lib/loggers';
 import { DaprAdaptor } from '#self/delegate/dapr_adaptor';
+import { HttpGateway } from './http_gateway';
 
 export interface ConfigurableDataPlaneDeps {
   config?: Config;
@@ -17,6 +18,7 @@ export class DataPlane extends Base {
   logger: Logger;
   host: DataPlaneHost;
   dataFlowController: DataFlowController;
+  httpGateway?: HttpGateway;
 
   constructor(deps?: ConfigurableDataPlaneDeps) {
     super();
@@ -32,10 +34,17 @@ export class DataPlane extends Base {
 
     this.host = new DataPlaneHost(`unix://${sockPath}`, this.config);
     this.dataFlowController = new DataFlowController(this.host, this.config);
+    if (this.config.dataPlane.httpGateway.enabled) {
+      this.httpGateway = new HttpGateway(
+        this.dataFlowController,
+        this.config.dataPlane.httpGateway
+      );
+    }
   }
 
   _close() {
     return Promise.all([
+      this.httpGateway?.close(),
       this.dataFlowController.close(),
       this.host.close(),
       loggers.close(),
@@ -47,6 +56,7 @@ export class DataPlane extends Base {
     await this.host.start(this.dataFlowController);
     await this.dataFlowController.ready();
     this.logger.info(`listened at ${this.host.address}.`);
+    await this.httpGateway?.start();
   }
 
   public setDaprAdaptor(it: DaprAdaptor) {
@@ -5,6 +5,7 @@ import { PushServerImpl } from './impl/push_server';
 import { Config } from '#self/config';
 import { DataFlowController } from './data_flow_controller';
 import { WorkerBroker } from './worker_broker';
+import { SystemCircuitBreaker } from './circuit_breaker';
 import * as root from '#self/proto/root';
 
 const logger = require('#self/lib/logger').get('data plane host');
@@ -53,4 +54,12 @@ export class DataPlaneHost extends Host {
       report
     );
   }
+
+  broadcastSystemCircuitBreakerStatus(circuitBreaker: SystemCircuitBreaker) {
+    this.broadcast(
+      'systemCircuitBreakerStatus',
+      'noslated.data.SystemCircuitBreakerStatusBroadcast',
+      circuitBreaker.toJSON()
+    );
+  }
 }
@@ -0,0 +1,102 @@
+import {
+  BatchObservableResult,
+  Meter,
+  ObservableGauge,
+} from '@opentelemetry/api';
+import {
+  DataPlaneMetrics,
+  PlaneMetricAttributes,
+} from '#self/lib/telemetry/semantic_conventions';
+import { CircuitBreakerState } from './circuit_breaker';
+import { DataFlowController } from './data_flow_controller';
+
+const kCircuitBreakerStateValues: Record<CircuitBreakerState, number> = {
+  [CircuitBreakerState.CLOSED]: 0,
+  [CircuitBreakerState.HALF_OPEN]: 1,
+  [CircuitBreakerState.OPEN]: 2,
+};
+
+interface FunctionStats {
+  queueLength: number;
+  activeRequestCount: number;
+  workerCount: number;
+}
+
+/**
+ * Observes the state of function brokers and the system circuit breaker.
+ */
+export class DataPlaneTelemetry {
+  #dataFlowController: Pick<DataFlowController, 'brokers' | 'circuitBreaker'>;
+  #queueLength: ObservableGauge;
+  #activeRequestCount: ObservableGauge;
+  #workerCount: ObservableGauge;
+  #systemCircuitBreakerState: ObservableGauge;
+
+  constructor(
+    meter: Meter,
+    dataFlowController: Pick<DataFlowController, 'brokers' | 'circuitBreaker'>
+  ) {
+    this.#dataFlowController = dataFlowController;
+
+    this.#queueLength = meter.createObservableGauge(
+      DataPlaneMetrics.QUEUE_LENGTH
+    );
+    this.#activeRequestCount = meter.createObservableGauge(
+      DataPlaneMetrics.ACTIVE_REQUEST_COUNT
+    );
+    this.#workerCount = meter.createObservableGauge(
+      DataPlaneMetrics.WORKER_COUNT
+    );
+    this.#systemCircuitBreakerState = meter.createObservableGauge(
+      DataPlaneMetrics.SYSTEM_CIRCUIT_BREAKER_STATE
+    );
+
+    meter.addBatchObservableCallback(this.onObservation, [
+      this.#queueLength,
+      this.#activeRequestCount,
+      this.#workerCount,
+      this.#systemCircuitBreakerState,
+    ]);
+  }
+
+  onObservation = (batchObservableResult: BatchObservableResult) => {
+    // Brokers of the same function with and without inspector are summed up.
+    const stats = new Map<string, FunctionStats>();
+    for (const broker of this.#dataFlowController.brokers.values()) {
+      let item = stats.get(broker.name);
+      if (item == null) {
+        item = { queueLength: 0, activeRequestCount: 0, workerCount: 0 };
+        stats.set(broker.name, item);
+      }
+      item.queueLength += broker.getPendingRequestCount();
+      item.activeRequestCount += broker.activeRequestCount;
+      item.workerCount += Array.from(broker.workers()).length;
+    }
+
+    for (const [functionName, item] of stats) {
+      const attributes = {
+        [PlaneMetricAttributes.FUNCTION_NAME]: functionName,
+      };
+      batchObservableResult.observe(
+        this.#queueLength,
+        item.queueLength,
+        attributes
+      );
+      batchObservableResult.observe(
+        this.#activeRequestCount,
+        item.activeRequestCount,
+        attributes
+      );
+      batchObservableResult.observe(
+        this.#workerCount,
+        item.workerCount,
+        attributes
+      );
+    }
+
+    batchObservableResult.observe(
+      this.#systemCircuitBreakerState,
+      kCircuitBreakerStateValues[this.#dataFlowController.circuitBreaker.state]
+    );
+  };
+}
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { Readable } from 'stream';
+import { DataWorker, Dispatcher, DispatcherDelegate } from './dispatcher';
+
+export interface ConsistentHashDispatcherOptions {
+  /**
+   * Get the hash key of the request. Requests without a key are dispatched
+   * to the least loaded worker.
+   */
+  getKey: (metadata: Metadata) => string | undefined;
+  /**
+   * Count of points on the hash ring per worker.
+   *
+   * @default 160
+   */
+  virtualNodeCount?: number;
+}
+
+interface RingPoint {
+  hash: number;
+  worker: DataWorker;
+}
+
+function hash(key: string) {
+  return crypto.createHash('md5').update(key).digest().readUInt32BE(0);
+}
+
+export class ConsistentHashDispatcher implements Dispatcher {
+  type = 'consistent-hash';
+
+  private _workers = new Set<DataWorker>();
+  private _ring: RingPoint[] = [];
+  private _successor: Dispatcher | undefined;
+  readonly virtualNodeCount: number;
+
+  constructor(
+    private _delegate: DispatcherDelegate,
+    private _options: ConsistentHashDispatcherOptions
+  ) {
+    this.virtualNodeCount = _options.virtualNodeCount || 160;
+  }
+
+  _isWorkerFree(worker: DataWorker): boolean {
+    return (
+      !worker.trafficOff &&
+      worker.activeRequestCount < this._delegate.maxActiveRequestCount
+    );
+  }
+
+  /**
+   * Get the worker that owns the key on the hash ring. Workers whose traffic
+   * is off are skipped as if they were not on the ring.
+   */
+  _getTargetWorker(key: string): DataWorker | undefined {
+    const ring = this._ring;
+    if (ring.length === 0) {
+      return;
+    }
+    const keyHash = hash(key);
+    let low = 0;
+    let high = ring.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (ring[mid].hash < keyHash) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    for (let idx = 0; idx < ring.length; idx++) {
+      const { worker } = ring[(low + idx) % ring.length];
+      if (!worker.trafficOff) {
+        return worker;
+      }
+    }
+  }
+
+  _getLeastLoadedWorker(
+    excludedWorkers?: ReadonlySet<string>
+  ): DataWorker | undefined {
+    let result: DataWorker | undefined;
+    for (const worker of this._workers) {
+      if (!this._isWorkerFree(worker) || excludedWorkers?.has(worker.name)) {
+        continue;
+      }
+      if (
+        result == null ||
+        worker.activeRequestCount < result.activeRequestCount
+      ) {
+        result = worker;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the worker to dispatch the request to, falls back to the least loaded
+   * worker if the target worker is full.
+   */
+  _getAvailableWorker(metadata: Metadata): DataWorker | undefined {
+    const key = this._options.getKey(metadata);
+    if (key != null) {
+      const worker = this._getTargetWorker(key);
+      if (worker && this._isWorkerFree(worker)) {
+        return worker;
+      }
+    }
+    return this._getLeastLoadedWorker();
+  }
+
+  _tryConsumeQueue() {
+    while (this._delegate.getPendingRequestCount()) {
+      if (this._getLeastLoadedWorker() == null) {
+        break;
+      }
+
+      const request = this._delegate.getPendingRequest();
+      if (!request) continue;
+      if (!request.available) continue;
+      request.stopTimer();
+
+      const worker = this._getAvailableWorker(request.metadata)!;
+      const future = worker.invoke(request);
+      this._handleResponse(worker, future);
+      future.then(request.resolve, request.reject);
+    }
+  }
+
+  private _handleResponse(
+    worker: DataWorker,
+    future: Promise<TriggerResponse>
+  ) {
+    future
+      .then(
+        res => {
+          return res.finish();
+        },
+        () => {}
+      )
+      .finally(() => {
+        this.releaseWorker(worker);
+      });
+  }
+
+  private _queueRequest(inputStream: Readable | Buffer, metadata: Metadata) {
+    this._delegate.checkRequestQueueing(metadata);
+    const request = this._delegate.createPendingRequest(inputStream, metadata);
+    return request.promise;
+  }
+
+  async invoke(
+    inputStream: Readable | Buffer,
+    metadata: Metadata
+  ): Promise<TriggerResponse> {
+    if (this._delegate.getPendingRequestCount()) {
+      return this._queueRequest(inputStream, metadata);
+    }
+
+    const worker = this._getAvailableWorker(metadata);
+    if (worker == null) {
+      return this._queueRequest(inputStream, metadata);
+    }
+
+    const future = worker.invoke(inputStream, metadata);
+    this._handleResponse(worker, future);
+    return future;
+  }
+
+  /**
+   * The owner of the key has been excluded, fall back to the least loaded
+   * worker.
+   */
+  invokeExcluding(
+    inputStream: Readable | Buffer,
+    metadata: Metadata,
+    excludedWorkers: ReadonlySet<string>
+  ): Promise<TriggerResponse> | undefined {
+    const worker = this._getLeastLoadedWorker(excludedWorkers);
+    if (worker == null) {
+      return;
+    }
+
+    const future = worker.invoke(inputStream, metadata);
+    this._handleResponse(worker, future);
+    return future;
+  }
+
+  registerWorker(worker: DataWorker) {
+    this._workers.add(worker);
+    for (let idx = 0; idx < this.virtualNodeCount; idx++) {
+      this._ring.push({ hash: hash(`${worker.name}#${idx}`), worker });
+    }
+    this._ring.sort((lhs, rhs) => lhs.hash - rhs.hash);
+
+    this._tryConsumeQueue();
+  }
+
+  unregisterWorker(worker: DataWorker) {
+    if (!this._workers.delete(worker)) {
+      return;
+    }
+    this._ring = this._ring.filter(it => it.worker !== worker);
+  }
+
+  handOver(successor: Dispatcher) {
+    this._successor = successor;
+  }
+
+  releaseWorker(worker: DataWorker) {
+    if (this._successor) {
+      this._successor.releaseWorker(worker);
+      return;
+    }
+    this._tryConsumeQueue();
+  }
+}
@@ -6,6 +6,10 @@ export interface DataWorker {
   readonly name: string;
   readonly activeRequestCount: number;
   readonly trafficOff: boolean;
+  /**
+   * Moving average of the response time in milliseconds, 0 if unknown.
+   */
+  readonly responseTimeEwma: number;
 
   getDispatcherData<T>(): T;
   setDispatcherData<T>(val: T): void;
@@ -40,7 +44,29 @@ export interface Dispatcher {
     inputStream: Readable | Buffer,
     metadata: Metadata
   ): Promise<TriggerResponse>;
+  /**
+   * Invoke to an available worker whose name is not in `excludedWorkers`,
+   * the request is never queued. Returns undefined if no such worker is
+   * available.
+   */
+  invokeExcluding(
+    inputStream: Readable | Buffer,
+    metadata: Metadata,
+    excludedWorkers: ReadonlySet<string>
+  ): Promise<TriggerResponse> | undefined;
 
   registerWorker(worker: DataWorker): void;
   unregisterWorker(worker: DataWorker): void;
+
+  /**
+   * Stop dispatching once replaced by `successor`. Completions of the requests
+   * still in flight are reported to `successor` with
+   * {@link Dispatcher.releaseWorker} instead, so that only the successor
+   * consumes the request queue.
+   */
+  handOver(successor: Dispatcher): void;
+  /**
+   * A request dispatched to the worker by a replaced dispatcher has finished.
+   */
+  releaseWorker(worker: DataWorker): void;
 }
@@ -44,6 +44,22 @@ export class DisposableDispatcher implements Dispatcher {
     return pendingRequest.promise;
   }
 
+  /**
+   * Idle workers have never been invoked, so none of them can be excluded.
+   */
+  invokeExcluding(
+    inputStream: Readable | Buffer,
+    metadata: Metadata
+  ): Promise<TriggerResponse> | undefined {
+    const worker = this._workers.shift();
+    if (worker == null) {
+      return;
+    }
+    const future = worker.invoke(inputStream, metadata);
+    this._handleResponse(worker, future);
+    return future;
+  }
+
   registerWorker(worker: DataWorker) {
     const pendingRequest = this._delegate.getPendingRequest();
     if (pendingRequest == null) {
@@ -71,4 +87,16 @@ export class DisposableDispatcher implements Dispatcher {
       this._workers.remove(node);
     }
   }
+
+  /**
+   * Workers are closed once their only request has finished, there is nothing
+   * to hand over.
+   */
+  handOver() {}
+
+  /**
+   * Requests are dispatched to idle workers only, released workers are never
+   * reused.
+   */
+  releaseWorker() {}
 }
@@ -1,7 +1,7 @@
 import { Metadata, TriggerResponse } from '#self/delegate/request_response';
 import { Readable } from 'stream';
 import { DataWorker, Dispatcher, DispatcherDelegate } from './dispatcher';
-import { MinHeap } from '@datastructures-js/heap';
+import { IndexedMinHeap, ReadonlyHeapNode } from '#self/lib/indexed_heap';
 
 export enum RequestQueueStatus {
   kPassThrough = 0,
@@ -11,21 +11,36 @@ export enum RequestQueueStatus {
 export class LeastRequestCountDispatcher implements Dispatcher {
   type = 'least-request-count';
 
-  _workerHeap: DataWorker[] = [];
+  _workerHeap = new IndexedMinHeap<DataWorker>();
   _requestQueueStatus: RequestQueueStatus = RequestQueueStatus.kPassThrough;
+  private _successor: Dispatcher | undefined;
 
   constructor(private _delegate: DispatcherDelegate) {}
 
   _getAvailableWorker(): DataWorker | undefined {
-    MinHeap.heapify(this._workerHeap, it =>
-      it.trafficOff ? Infinity : it.activeRequestCount
-    );
-    const worker = this._workerHeap[0];
+    let node = this._workerHeap.peek();
+    // Traffic of a worker never turns on again once it is off, sink it.
+    while (node && node.value.trafficOff && node.key !== Infinity) {
+      this._workerHeap.update(node, Infinity);
+      node = this._workerHeap.peek();
+    }
+    const worker = node?.value;
     if (worker && this._isWorkerFree(worker)) {
       return worker;
     }
   }
 
+  /**
+   * Update the position of the worker in the heap, should be called after
+   * the worker's active request count changed.
+   */
+  _updateWorker(worker: DataWorker) {
+    const node = worker.getDispatcherData<ReadonlyHeapNode<DataWorker>>();
+    if (node) {
+      this._workerHeap.update(node, getWorkerKey(worker));
+    }
+  }
+
   _isWorkerFree(worker: DataWorker): boolean {
     return (
       !worker.trafficOff &&
@@ -49,6 +64,7 @@ export class LeastRequestCountDispatcher implements Dispatcher {
       request.stopTimer();
 
       const future = worker.invoke(request);
+      this._updateWorker(worker);
       this._handleResponse(worker, future);
       future.then(request.resolve, request.reject);
     }
@@ -78,7 +94,7 @@ export class LeastRequestCountDispatcher implements Dispatcher {
         () => {}
       )
       .finally(() => {
-        this._tryConsumeQueue(worker);
+        this.releaseWorker(worker);
       });
   }
 
@@ -98,6 +114,7 @@ export class LeastRequestCountDispatcher implements Dispatcher {
         }
 
         const future = worker.invoke(inputStream, metadata);
+        this._updateWorker(worker);
         this._handleResponse(worker, future);
         return future;
       }
@@ -110,15 +127,57 @@ export class LeastRequestCountDispatcher implements Dispatcher {
     }
   }
 
+  invokeExcluding(
+    inputStream: Readable | Buffer,
+    metadata: Metadata,
+    excludedWorkers: ReadonlySet<string>
+  ): Promise<TriggerResponse> | undefined {
+    let worker: DataWorker | undefined;
+    for (const it of this._workerHeap.values()) {
+      if (!this._isWorkerFree(it) || excludedWorkers.has(it.name)) {
+        continue;
+      }
+      if (worker == null || it.activeRequestCount < worker.activeRequestCount) {
+        worker = it;
+      }
+    }
+    if (worker == null) {
+      return;
+    }
+
+    const future = worker.invoke(inputStream, metadata);
+    this._updateWorker(worker);
+    this._handleResponse(worker, future);
+    return future;
+  }
+
   registerWorker(worker: DataWorker) {
-    this._workerHeap.push(worker);
+    const node = this._workerHeap.push(worker, getWorkerKey(worker));
+    worker.setDispatcherData(node);
     this._tryConsumeQueue(worker);
   }
 
   unregisterWorker(worker: DataWorker) {
-    const idx = this._workerHeap.indexOf(worker);
-    if (idx >= 0) {
-      this._workerHeap.splice(idx, 1);
+    const node = worker.getDispatcherData<ReadonlyHeapNode<DataWorker>>();
+    if (node) {
+      this._workerHeap.remove(node);
     }
   }
+
+  handOver(successor: Dispatcher) {
+    this._successor = successor;
+  }
+
+  releaseWorker(worker: DataWorker) {
+    if (this._successor) {
+      this._successor.releaseWorker(worker);
+      return;
+    }
+    this._updateWorker(worker);
+    this._tryConsumeQueue(worker);
+  }
+}
+
+function getWorkerKey(worker: DataWorker) {
+  return worker.trafficOff ? Infinity : worker.activeRequestCount;
 }
@@ -0,0 +1,185 @@
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { Readable } from 'stream';
+import { DataWorker, Dispatcher, DispatcherDelegate } from './dispatcher';
+
+export interface P2cEwmaDispatcherOptions {
+  /**
+   * Random number generator in [0, 1).
+   *
+   * @default Math.random
+   */
+  random?: () => number;
+}
+
+/**
+ * Power of two choices dispatcher. Two workers are sampled randomly and the
+ * one with lower `(activeRequestCount + 1) * responseTimeEwma` is chosen.
+ */
+export class P2cEwmaDispatcher implements Dispatcher {
+  type = 'p2c-ewma';
+
+  private _workers: DataWorker[] = [];
+  private _successor: Dispatcher | undefined;
+  private readonly _random: () => number;
+
+  constructor(
+    private _delegate: DispatcherDelegate,
+    options?: P2cEwmaDispatcherOptions
+  ) {
+    this._random = options?.random ?? Math.random;
+  }
+
+  _isWorkerFree(worker: DataWorker): boolean {
+    return (
+      !worker.trafficOff &&
+      worker.activeRequestCount < this._delegate.maxActiveRequestCount
+    );
+  }
+
+  /**
+   * Workers without finished requests are assumed to be as fast as the other
+   * candidate.
+   */
+  _choose(lhs: DataWorker, rhs: DataWorker): DataWorker {
+    const fallback = Math.max(lhs.responseTimeEwma, rhs.responseTimeEwma) || 1;
+    const lhsCost =
+      (lhs.activeRequestCount + 1) * (lhs.responseTimeEwma || fallback);
+    const rhsCost =
+      (rhs.activeRequestCount + 1) * (rhs.responseTimeEwma || fallback);
+    return lhsCost <= rhsCost ? lhs : rhs;
+  }
+
+  private _sample(workers: DataWorker[]): DataWorker[] {
+    const first = Math.floor(this._random() * workers.length);
+    if (workers.length === 1) {
+      return [workers[first]];
+    }
+    // Pick another one from the rest.
+    let second = Math.floor(this._random() * (workers.length - 1));
+    if (second >= first) {
+      second++;
+    }
+    return [workers[first], workers[second]];
+  }
+
+  _getAvailableWorker(
+    excludedWorkers?: ReadonlySet<string>
+  ): DataWorker | undefined {
+    const workers = excludedWorkers
+      ? this._workers.filter(it => !excludedWorkers.has(it.name))
+      : this._workers;
+    if (workers.length === 0) {
+      return;
+    }
+    let candidates = this._sample(workers).filter(it => this._isWorkerFree(it));
+    if (candidates.length === 0) {
+      // Sample again from free workers only.
+      const freeWorkers = workers.filter(it => this._isWorkerFree(it));
+      if (freeWorkers.length === 0) {
+        return;
+      }
+      candidates = this._sample(freeWorkers);
+    }
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+    return this._choose(candidates[0], candidates[1]);
+  }
+
+  _tryConsumeQueue() {
+    while (this._delegate.getPendingRequestCount()) {
+      const worker = this._getAvailableWorker();
+      if (worker == null) {
+        break;
+      }
+
+      const request = this._delegate.getPendingRequest();
+      if (!request) continue;
+      if (!request.available) continue;
+      request.stopTimer();
+
+      const future = worker.invoke(request);
+      this._handleResponse(worker, future);
+      future.then(request.resolve, request.reject);
+    }
+  }
+
+  private _handleResponse(
+    worker: DataWorker,
+    future: Promise<TriggerResponse>
+  ) {
+    future
+      .then(
+        res => {
+          return res.finish();
+        },
+        () => {}
+      )
+      .finally(() => {
+        this.releaseWorker(worker);
+      });
+  }
+
+  private _queueRequest(inputStream: Readable | Buffer, metadata: Metadata) {
+    this._delegate.checkRequestQueueing(metadata);
+    const request = this._delegate.createPendingRequest(inputStream, metadata);
+    return request.promise;
+  }
+
+  async invoke(
+    inputStream: Readable | Buffer,
+    metadata: Metadata
+  ): Promise<TriggerResponse> {
+    if (this._delegate.getPendingRequestCount()) {
+      return this._queueRequest(inputStream, metadata);
+    }
+
+    const worker = this._getAvailableWorker();
+    if (worker == null) {
+      return this._queueRequest(inputStream, metadata);
+    }
+
+    const future = worker.invoke(inputStream, metadata);
+    this._handleResponse(worker, future);
+    return future;
+  }
+
+  invokeExcluding(
+    inputStream: Readable | Buffer,
+    metadata: Metadata,
+    excludedWorkers: ReadonlySet<string>
+  ): Promise<TriggerResponse> | undefined {
+    const worker = this._getAvailableWorker(excludedWorkers);
+    if (worker == null) {
+      return;
+    }
+
+    const future = worker.invoke(inputStream, metadata);
+    this._handleResponse(worker, future);
+    return future;
+  }
+
+  registerWorker(worker: DataWorker) {
+    this._workers.push(worker);
+    this._tryConsumeQueue();
+  }
+
+  unregisterWorker(worker: DataWorker) {
+    const idx = this._workers.indexOf(worker);
+    if (idx >= 0) {
+      this._workers.splice(idx, 1);
+    }
+  }
+
+  handOver(successor: Dispatcher) {
+    this._successor = successor;
+  }
+
+  releaseWorker(worker: DataWorker) {
+    if (this._successor) {
+      this._successor.releaseWorker(worker);
+      return;
+    }
+    this._tryConsumeQueue();
+  }
+}
@@ -23,17 +23,27 @@ export class RoundRobinDispatcher implements Dispatcher {
 
   private _workers = new List<DataWorker>();
   private readonly _batchSize: number;
-  private readonly _maxConcurrency: number;
+  private readonly _maxConcurrencyOption: number | undefined;
   private _concurrency = 0;
+  private _successor: Dispatcher | undefined;
 
   constructor(
     private _delegate: DispatcherDelegate,
     options?: RoundRobinDispatcherOptions
   ) {
     this._batchSize = options?.batchSize ?? 25;
-    this._maxConcurrency =
-      options?.maxConcurrency ??
-      this._delegate.maxActiveRequestCount * this._delegate.replicaCountLimit;
+    this._maxConcurrencyOption = options?.maxConcurrency;
+  }
+
+  /**
+   * Evaluated on access so that the delegate's profile updates are applied
+   * without re-creating the dispatcher.
+   */
+  private get _maxConcurrency(): number {
+    return (
+      this._maxConcurrencyOption ??
+      this._delegate.maxActiveRequestCount * this._delegate.replicaCountLimit
+    );
   }
 
   _getNextWorker(): DataWorker | undefined {
@@ -63,6 +73,10 @@ export class RoundRobinDispatcher implements Dispatcher {
    * @param worker The idled (not that busy) worker.
    */
   _tryConsumeQueue() {
+    // e.g. scheduled before the dispatcher is replaced.
+    if (this._successor) {
+      return;
+    }
     let count = 0;
     let worker = this._getNextWorker();
     if (worker == null) {
@@ -88,7 +102,7 @@ export class RoundRobinDispatcher implements Dispatcher {
 
       this._concurrency++;
       const future = worker.invoke(request);
-      this._handleResponse(future);
+      this._handleResponse(worker, future);
       future.then(request.resolve, request.reject);
 
       count++;
@@ -109,7 +123,10 @@ export class RoundRobinDispatcher implements Dispatcher {
     }
   }
 
-  private _handleResponse(future: Promise<TriggerResponse>) {
+  private _handleResponse(
+    worker: DataWorker,
+    future: Promise<TriggerResponse>
+  ) {
     future
       .then(
         res => {
@@ -119,7 +136,7 @@ export class RoundRobinDispatcher implements Dispatcher {
       )
       .finally(() => {
         this._concurrency--;
-        this._tryConsumeQueue();
+        this.releaseWorker(worker);
       });
   }
 
@@ -150,7 +167,34 @@ export class RoundRobinDispatcher implements Dispatcher {
 
     this._concurrency++;
     const future = worker.invoke(input, metadata);
-    this._handleResponse(future);
+    this._handleResponse(worker, future);
+    return future;
+  }
+
+  invokeExcluding(
+    input: Readable | Buffer,
+    metadata: Metadata,
+    excludedWorkers: ReadonlySet<string>
+  ): Promise<TriggerResponse> | undefined {
+    if (this._concurrency >= this._maxConcurrency) {
+      return;
+    }
+    // Rotate at most once through the workers.
+    let worker: DataWorker | undefined;
+    for (let count = this._workers.length; count > 0; count--) {
+      const next = this._getNextWorker();
+      if (next && !excludedWorkers.has(next.name)) {
+        worker = next;
+        break;
+      }
+    }
+    if (worker == null) {
+      return;
+    }
+
+    this._concurrency++;
+    const future = worker.invoke(input, metadata);
+    this._handleResponse(worker, future);
     return future;
   }
 
@@ -167,4 +211,16 @@ export class RoundRobinDispatcher implements Dispatcher {
       this._workers.remove(node);
     }
   }
+
+  handOver(successor: Dispatcher) {
+    this._successor = successor;
+  }
+
+  releaseWorker(worker: DataWorker) {
+    if (this._successor) {
+      this._successor.releaseWorker(worker);
+      return;
+    }
+    this._tryConsumeQueue();
+  }
 }
@@ -0,0 +1,181 @@
+import EventEmitter from 'events';
+import { Clock, systemClock } from '#self/lib/clock';
+import { FunctionCircuitBreakerProfile } from '#self/lib/json/function_profile';
+import { RpcError } from '#self/lib/rpc/error';
+import * as root from '#self/proto/root';
+
+const logger = require('#self/lib/logger').get('function circuit breaker');
+
+export enum FunctionCircuitBreakerState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half-open',
+}
+
+/**
+ * Rejection of an opened function circuit breaker, which shares the code with
+ * `SystemCircuitBreakerOpenedError` and is told apart by the name.
+ */
+export class FunctionCircuitBreakerOpenedError extends RpcError {
+  name = 'FunctionCircuitBreakerOpenedError';
+}
+
+interface Sample {
+  error: boolean;
+  latency: number;
+}
+
+/**
+ * A circuit breaker of a single function.
+ *
+ * The breaker opens when the error ratio or the p99 latency of the recent
+ * samples exceeds the threshold. After `openDuration` it turns into
+ * half-open and lets `halfOpenProbeCount` probe requests in. The breaker
+ * closes if all the probes succeed, or opens again on any failed probe.
+ */
+export class FunctionCircuitBreaker extends EventEmitter {
+  #config: Required<Omit<FunctionCircuitBreakerProfile, 'p99Latency'>> &
+    Pick<FunctionCircuitBreakerProfile, 'p99Latency'>;
+  #clock: Clock;
+
+  #state = FunctionCircuitBreakerState.CLOSED;
+  #openedAt = 0;
+  #samples: Sample[] = [];
+  #cursor = 0;
+  #probeIssuedCount = 0;
+  #probeSucceededCount = 0;
+
+  constructor(
+    public name: string,
+    config: FunctionCircuitBreakerProfile,
+    clock: Clock = systemClock
+  ) {
+    super();
+    this.#config = {
+      errorRatio: config.errorRatio ?? 0.5,
+      p99Latency: config.p99Latency,
+      minSampleCount: config.minSampleCount ?? 20,
+      slidingWindowSize: config.slidingWindowSize ?? 100,
+      openDuration: config.openDuration ?? 30_000,
+      halfOpenProbeCount: config.halfOpenProbeCount ?? 5,
+    };
+    this.#clock = clock;
+  }
+
+  get state() {
+    if (
+      this.#state === FunctionCircuitBreakerState.OPEN &&
+      this.#clock.now() - this.#openedAt >= this.#config.openDuration
+    ) {
+      this.#setState(FunctionCircuitBreakerState.HALF_OPEN);
+    }
+    return this.#state;
+  }
+
+  /**
+   * Check if a request is allowed to pass.
+   * @return `null` if rejected, otherwise whether the request is a probe.
+   */
+  tryAcquire(): { probe: boolean } | null {
+    switch (this.state) {
+      case FunctionCircuitBreakerState.CLOSED:
+        return { probe: false };
+      case FunctionCircuitBreakerState.HALF_OPEN: {
+        if (this.#probeIssuedCount >= this.#config.halfOpenProbeCount) {
+          return null;
+        }
+        this.#probeIssuedCount++;
+        return { probe: true };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Record the result of a passed request.
+   * @param probe Whether the request was acquired as a probe.
+   * @param error Whether the request failed.
+   * @param latency The latency of the request in milliseconds.
+   */
+  record(probe: boolean, error: boolean, latency: number) {
+    const state = this.state;
+    if (state === FunctionCircuitBreakerState.HALF_OPEN) {
+      // Requests passed before the breaker opened are not counted.
+      if (!probe) {
+        return;
+      }
+      if (error || this.#isLatencyExceeded(latency)) {
+        this.#setState(FunctionCircuitBreakerState.OPEN);
+        return;
+      }
+      this.#probeSucceededCount++;
+      if (this.#probeSucceededCount >= this.#config.halfOpenProbeCount) {
+        this.#setState(FunctionCircuitBreakerState.CLOSED);
+      }
+      return;
+    }
+    if (state === FunctionCircuitBreakerState.OPEN) {
+      return;
+    }
+
+    this.#samples[this.#cursor] = { error, latency };
+    this.#cursor = (this.#cursor + 1) % this.#config.slidingWindowSize;
+
+    if (this.#samples.length < this.#config.minSampleCount) {
+      return;
+    }
+    if (
+      this.errorRatio > this.#config.errorRatio ||
+      this.#isLatencyExceeded(this.p99Latency)
+    ) {
+      this.#setState(FunctionCircuitBreakerState.OPEN);
+    }
+  }
+
+  get sampleCount() {
+    return this.#samples.length;
+  }
+
+  get errorRatio() {
+    if (this.#samples.length === 0) {
+      return 0;
+    }
+    const errorCount = this.#samples.filter(it => it.error).length;
+    return errorCount / this.#samples.length;
+  }
+
+  get p99Latency() {
+    if (this.#samples.length === 0) {
+      return 0;
+    }
+    const latencies = this.#samples.map(it => it.latency).sort((a, b) => a - b);
+    return latencies[Math.ceil(latencies.length * 0.99) - 1];
+  }
+
+  toJSON(): root.noslated.data.IFunctionCircuitBreakerStats {
+    return {
+      state: this.state,
+      errorRatio: this.errorRatio,
+      p99Latency: this.p99Latency,
+      sampleCount: this.sampleCount,
+    };
+  }
+
+  #isLatencyExceeded(latency: number) {
+    return this.#config.p99Latency != null && latency > this.#config.p99Latency;
+  }
+
+  #setState(state: FunctionCircuitBreakerState) {
+    this.#state = state;
+    this.#samples = [];
+    this.#cursor = 0;
+    this.#probeIssuedCount = 0;
+    this.#probeSucceededCount = 0;
+    if (state === FunctionCircuitBreakerState.OPEN) {
+      this.#openedAt = this.#clock.now();
+    }
+    logger.info(`circuit breaker [${this.name}] status change to [${state}]`);
+    this.emit('status-changed', state);
+  }
+}
@@ -0,0 +1,327 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import crypto from 'crypto';
+import { Socket } from 'net';
+import { pipeline } from 'stream';
+import { HttpGatewayConfig, HttpGatewayRoute } from '#self/config';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { RpcError, RpcStatus } from '#self/lib/rpc/error';
+import { Logger, loggers } from '#self/lib/loggers';
+import { tryQ } from '#self/lib/util';
+import type { DataFlowController } from './data_flow_controller';
+
+type Invoker = Pick<DataFlowController, 'invoke' | 'invokeService'>;
+
+interface InvokeTarget {
+  functionName?: string;
+  serviceName?: string;
+  /**
+   * The url passed to the function.
+   */
+  url: string;
+}
+
+/**
+ * Name of the error, e.g. `FunctionCircuitBreakerOpenedError`, so that clients
+ * can tell apart errors mapped to the same status.
+ */
+const kErrorNameHeader = 'x-noslated-error';
+
+/**
+ * Headers that are meaningful only for a single connection, and are not
+ * forwarded from function responses.
+ */
+const kHopByHopHeaders = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'te',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+const kRpcStatusToHttpStatus: Record<number, number> = {
+  [RpcStatus.INVALID_ARGUMENT]: 400,
+  [RpcStatus.FAILED_PRECONDITION]: 503,
+  [RpcStatus.NOT_FOUND]: 404,
+  [RpcStatus.PERMISSION_DENIED]: 403,
+  [RpcStatus.UNAUTHENTICATED]: 401,
+  [RpcStatus.RESOURCE_EXHAUSTED]: 429,
+  [RpcStatus.UNAVAILABLE]: 503,
+  [RpcStatus.CANCELLED]: 499,
+  [RpcStatus.DEADLINE_EXCEEDED]: 504,
+  [RpcStatus.UNIMPLEMENTED]: 501,
+};
+
+/**
+ * An HTTP/1.1 ingress of the data plane. Requests are routed by the
+ * configured host and path rules, or to the function named by the first path
+ * segment, i.e. `/{function}/...`.
+ */
+class HttpGateway {
+  #invoker: Invoker;
+  #config: HttpGatewayConfig;
+  #logger: Logger;
+  #server: http.Server;
+  #sockets = new Set<Socket>();
+  #busySockets = new Set<Socket>();
+  #closing = false;
+
+  #onRequest = (req: IncomingMessage, res: ServerResponse) => {
+    const socket = req.socket;
+    this.#busySockets.add(socket);
+    res.once('close', () => {
+      this.#busySockets.delete(socket);
+      if (this.#closing) {
+        socket.destroy();
+      }
+    });
+    if (this.#closing) {
+      res.shouldKeepAlive = false;
+    }
+
+    this.#handleRequest(req, res).catch(e => {
+      this.#logger.error('unexpected error on handling request', e);
+      res.destroy();
+    });
+  };
+
+  constructor(invoker: Invoker, config: HttpGatewayConfig) {
+    this.#invoker = invoker;
+    this.#config = config;
+    this.#logger = loggers.get('http gateway');
+    this.#server = http.createServer(this.#onRequest);
+    this.#server.keepAliveTimeout = config.keepAliveTimeout;
+    this.#server.on('connection', (socket: Socket) => {
+      this.#sockets.add(socket);
+      socket.once('close', () => {
+        this.#sockets.delete(socket);
+      });
+    });
+  }
+
+  async start() {
+    return new Promise<void>((resolve, reject) => {
+      this.#server.once('error', reject);
+      this.#server.listen(this.#config.port, this.#config.host, () => {
+        this.#server.off('error', reject);
+        this.#logger.info(`listened at ${this.address()}.`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop accepting new connections. Idle keep-alive connections are closed
+   * immediately, while busy ones are closed after the responses are sent.
+   */
+  async close() {
+    this.#closing = true;
+    const future = new Promise<void>((resolve, reject) =>
+      this.#server.close(err => {
+        if (err) {
+          return reject(err);
+        }
+        resolve();
+      })
+    );
+    for (const socket of this.#sockets) {
+      if (!this.#busySockets.has(socket)) {
+        socket.destroy();
+      }
+    }
+    return future;
+  }
+
+  address() {
+    const address = this.#server.address();
+    if (address == null) {
+      return;
+    }
+    if (typeof address === 'string') {
+      return address;
+    }
+    return `${address.address}:${address.port}`;
+  }
+
+  /**
+   * Resolve the target of the request, returns undefined if no function could
+   * be resolved.
+   */
+  _route(host: string, url: URL): InvokeTarget | undefined {
+    const route = this.#config.routes.find(it => matchRoute(it, host, url));
+    if (route) {
+      return {
+        functionName: route.functionName,
+        serviceName: route.serviceName,
+        url: url.href,
+      };
+    }
+
+    const match = /^\/([^/]+)(\/.*)?$/.exec(url.pathname);
+    if (match == null) {
+      return;
+    }
+    const functionName = tryQ(() => decodeURIComponent(match[1]));
+    if (!functionName) {
+      return;
+    }
+    // Strip the function name from the url.
+    const rest = new URL(url.href);
+    rest.pathname = match[2] ?? '/';
+    return { functionName, url: rest.href };
+  }
+
+  async #handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const requestIdHeader = this.#config.requestIdHeader;
+    let requestId = req.headers[requestIdHeader];
+    if (Array.isArray(requestId)) {
+      requestId = requestId[0];
+    }
+    if (!requestId) {
+      requestId = crypto.randomUUID();
+    }
+    res.setHeader(requestIdHeader, requestId);
+
+    const host = req.headers.host ?? 'localhost';
+    const url = tryQ(() => new URL(req.url ?? '/', `http://${host}`));
+    const target = url && this._route(url.hostname, url);
+    if (target == null) {
+      req.resume();
+      this.#writeError(
+        res,
+        new RpcError('No function matched.', { code: RpcStatus.NOT_FOUND })
+      );
+      return;
+    }
+
+    // Abort the invocation when the client goes away.
+    const abortController = new AbortController();
+    res.once('close', () => {
+      if (!res.writableFinished) {
+        abortController.abort();
+      }
+    });
+
+    const metadata = new Metadata({
+      url: target.url,
+      method: req.method,
+      headers: toHeaderTuples(req.rawHeaders),
+      timeout: this.#config.requestTimeout,
+      requestId,
+      signal: abortController.signal,
+    });
+
+    let response: TriggerResponse;
+    try {
+      if (target.serviceName) {
+        response = await this.#invoker.invokeService(
+          target.serviceName,
+          req,
+          metadata
+        );
+      } else {
+        response = await this.#invoker.invoke(
+          target.functionName!,
+          req,
+          metadata
+        );
+      }
+    } catch (e) {
+      req.resume();
+      this.#writeError(res, e);
+      return;
+    }
+
+    const headers = groupHeaders(response.metadata.headers);
+    try {
+      res.statusCode = response.status;
+      for (const [name, value] of headers) {
+        res.setHeader(name, value);
+      }
+    } catch (e) {
+      this.#logger.warn('[%s] invalid response headers.', requestId, e);
+      // Nobody is going to consume the response.
+      response.destroy();
+      for (const name of headers.keys()) {
+        res.removeHeader(name);
+      }
+      this.#writeError(
+        res,
+        new RpcError('Invalid response headers.', {
+          code: RpcStatus.INTERNAL,
+        })
+      );
+      return;
+    }
+    pipeline(response, res, err => {
+      if (err) {
+        this.#logger.debug('[%s] response aborted.', requestId, err);
+      }
+    });
+  }
+
+  #writeError(res: ServerResponse, e: unknown) {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    const code = (e as RpcError).code;
+    res.statusCode = kRpcStatusToHttpStatus[code] ?? 500;
+    res.setHeader('content-type', 'text/plain; charset=utf-8');
+    const name = (e as Error)?.name;
+    if (name && name !== 'Error') {
+      res.setHeader(kErrorNameHeader, name);
+    }
+    res.end((e as Error)?.message ?? 'Internal error.');
+  }
+}
+
+function matchRoute(route: HttpGatewayRoute, host: string, url: URL) {
+  if (route.host && route.host.toLowerCase() !== host.toLowerCase()) {
+    return false;
+  }
+  if (route.pathPrefix && !url.pathname.startsWith(route.pathPrefix)) {
+    return false;
+  }
+  return true;
+}
+
+function toHeaderTuples(rawHeaders: string[]): [string, string][] {
+  const headers: [string, string][] = [];
+  for (let idx = 0; idx < rawHeaders.length; idx += 2) {
+    headers.push([rawHeaders[idx].toLowerCase(), rawHeaders[idx + 1]]);
+  }
+  return headers;
+}
+
+/**
+ * Group header values by name, hop-by-hop headers, including the ones listed
+ * in `connection`, are dropped.
+ */
+function groupHeaders(headers: [string, string][]) {
+  const hopByHop = new Set(kHopByHopHeaders);
+  for (const [name, value] of headers) {
+    if (name.toLowerCase() === 'connection') {
+      for (const it of value.split(',')) {
+        hopByHop.add(it.trim().toLowerCase());
+      }
+    }
+  }
+
+  const grouped = new Map<string, string[]>();
+  for (const [name, value] of headers) {
+    const key = name.toLowerCase();
+    if (hopByHop.has(key)) {
+      continue;
+    }
+    let values = grouped.get(key);
+    if (values == null) {
+      values = [];
+      grouped.set(key, values);
+    }
+    values.push(value);
+  }
+  return grouped;
+}
+
+export { HttpGateway };
@@ -111,6 +111,42 @@ export class DataPlaneImpl implements IDataPlane {
           };
         });
       }
+      if (it.stickyKey) {
+        item.stickyKey = {
+          header: it.stickyKey.header || undefined,
+          baggage: it.stickyKey.baggage || undefined,
+        };
+      }
+      if (it.rules?.length) {
+        item.rules = it.rules.map(it => {
+          return {
+            match: {
+              pathPrefix: it.pathPrefix || undefined,
+              method: it.method || undefined,
+              headers: pairsToMap(
+                (it.headers ??
+                  []) as NotNullableInterface<root.noslated.IKeyValuePair>[]
+              ),
+              baggage: pairsToMap(
+                (it.baggage ??
+                  []) as NotNullableInterface<root.noslated.IKeyValuePair>[]
+              ),
+            },
+            selector: pairsToMap(
+              it.selector as NotNullableInterface<root.noslated.IKeyValuePair>[]
+            ) as Record<'functionName', string>,
+          };
+        });
+      }
+      if (it.mirror) {
+        item.mirror = {
+          percentage: it.mirror.percentage || 0,
+          selector: pairsToMap(
+            it.mirror
+              .selector as NotNullableInterface<root.noslated.IKeyValuePair>[]
+          ) as Record<'functionName', string>,
+        };
+      }
       return item;
     });
 
@@ -293,12 +329,19 @@ export class DataPlaneImpl implements IDataPlane {
 
   async checkHealth(): Promise<root.noslated.IPlaneHealthyResponse> {
     // TODO: add health check action
-    const breakerEnabled = this.dataFlowController.circuitBreaker.opened;
+    const circuitBreaker = this.dataFlowController.circuitBreaker;
+    const breakerEnabled = circuitBreaker.opened;
+    const openedBreakers = circuitBreaker.openedBreakers;
 
     return {
       name: 'DataPlane',
       health: !breakerEnabled,
-      reason: breakerEnabled ? 'Circuit Breaker Enabled' : '',
+      reason: breakerEnabled
+        ? `Circuit Breaker Enabled: ${openedBreakers
+            .map(it => `[${it.name}] ${it.reason}`)
+            .join('; ')}`
+        : '',
+      circuitBreakers: openedBreakers,
     };
   }
 }
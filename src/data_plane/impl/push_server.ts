@@ -10,6 +10,20 @@ import * as root from '#self/proto/root';
 import { NotNullableInterface } from '#self/lib/interfaces';
 import { Readable } from 'stream';
 import { IPushServer } from '#self/lib/interfaces/push_server';
+import { ServerUnaryCall } from '#self/lib/rpc/util';
+import { RpcError, RpcStatus, rpcAssert } from '#self/lib/rpc/error';
+import { AsyncJob } from '../async_invoker';
+import { SpanKind } from '@opentelemetry/api';
+import {
+  injectTraceHeaders,
+  startSpan,
+  traceInvocation,
+} from '#self/lib/telemetry/trace';
+import {
+  PlaneMetricAttributes,
+  TraceAttributes,
+  TraceSpans,
+} from '#self/lib/telemetry/semantic_conventions';
 
 interface InvokeRequest extends Readable {
   /** InvokeRequest name */
@@ -47,13 +61,30 @@ export class PushServerImpl implements IPushServer {
       root.noslated.data.InvokeResponse
     >
   ) {
+    // Abort the request when the caller goes away.
+    const abortController = new AbortController();
+    call.once('cancelled', () => {
+      abortController.abort();
+    });
+
+    const headers = pairsToTuples(
+      (req.headers as NotNullableInterface<root.noslated.IKeyValuePair>[]) ?? []
+    );
+    const span = startSpan(TraceSpans.PUSH_SERVER_INVOKE, headers, {
+      kind: SpanKind.SERVER,
+      attributes: {
+        [TraceAttributes.INVOKE_TYPE]: type,
+        [type === 'invoke'
+          ? PlaneMetricAttributes.FUNCTION_NAME
+          : PlaneMetricAttributes.SERVICE_NAME]: req.name,
+        [TraceAttributes.REQUEST_ID]: req.requestId,
+      },
+    });
+
     const metadata = new Metadata({
       url: req.url,
       method: req.method,
-      headers: pairsToTuples(
-        (req.headers as NotNullableInterface<root.noslated.IKeyValuePair>[]) ??
-          []
-      ),
+      headers: injectTraceHeaders(headers, span),
       baggage: pairsToTuples(
         (req.baggage as NotNullableInterface<root.noslated.IKeyValuePair>[]) ??
           []
@@ -61,9 +92,13 @@ export class PushServerImpl implements IPushServer {
       deadline: req.deadline,
       requestId: req.requestId,
       debuggerTag: req.debuggerTag,
+      signal: abortController.signal,
     });
 
-    const resFuture = this.dataFlowController[type](req.name, req, metadata);
+    const resFuture = traceInvocation<TriggerResponse>(
+      span,
+      this.dataFlowController[type](req.name, req, metadata)
+    );
 
     await this._pipeResponse(resFuture, call);
   }
@@ -88,6 +123,54 @@ export class PushServerImpl implements IPushServer {
     await this.#invoke('invokeService', req, call);
   }
 
+  /**
+   * Persist the request and invoke it in the background, the job can be
+   * queried by the returned id.
+   */
+  async invokeAsync(
+    call: ServerUnaryCall<root.noslated.data.IInvokeAsyncRequest>
+  ): Promise<root.noslated.data.IInvokeAsyncResponse> {
+    const { type, request } = call.request;
+    rpcAssert(type === 'invoke' || type === 'invokeService', 'invalid type');
+    rpcAssert(request?.name, 'name is required');
+
+    const job = await this.dataFlowController.asyncInvoker.submit(
+      type,
+      request.name,
+      Buffer.from(request.body ?? []),
+      {
+        url: request.url || undefined,
+        method: request.method || undefined,
+        headers: pairsToTuples(
+          (request.headers as NotNullableInterface<root.noslated.IKeyValuePair>[]) ??
+            []
+        ),
+        baggage: pairsToTuples(
+          (request.baggage as NotNullableInterface<root.noslated.IKeyValuePair>[]) ??
+            []
+        ),
+        deadline: request.deadline || undefined,
+        requestId: request.requestId || undefined,
+      }
+    );
+    return { jobId: job.id };
+  }
+
+  async getAsyncJob(
+    call: ServerUnaryCall<root.noslated.data.IGetAsyncJobRequest>
+  ): Promise<root.noslated.data.IAsyncJob> {
+    const { jobId } = call.request;
+    rpcAssert(jobId, 'jobId is required');
+
+    const job = await this.dataFlowController.asyncInvoker.get(jobId);
+    if (job == null) {
+      throw new RpcError(`Async job ${jobId} not found.`, {
+        code: RpcStatus.NOT_FOUND,
+      });
+    }
+    return asyncJobToProto(job);
+  }
+
   private _parsePushServerDuplexStream(
     call: ServerDuplexStream<
       root.noslated.data.InvokeRequest,
@@ -195,3 +278,21 @@ export class PushServerImpl implements IPushServer {
     return deferred.promise;
   }
 }
+
+function asyncJobToProto(job: AsyncJob): root.noslated.data.IAsyncJob {
+  return {
+    id: job.id,
+    type: job.type,
+    name: job.name,
+    status: job.status,
+    attempts: job.attempts,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    result: job.result && {
+      status: job.result.status,
+      headers: tuplesToPairs(job.result.headers),
+      body: Buffer.from(job.result.body, 'base64'),
+    },
+    error: job.error,
+  };
+}
@@ -0,0 +1,58 @@
+import { PassThrough, Readable } from 'stream';
+
+const kDefaultMaxBufferBytes = 1024 * 1024;
+
+export interface MirrorInput {
+  /**
+   * Input of the actual invocation.
+   */
+  primary: Buffer | Readable;
+  /**
+   * Input of the shadow invocation.
+   */
+  shadow: Buffer | Readable;
+}
+
+/**
+ * Tee the request body for mirroring. The primary branch follows the pace of
+ * its consumer, while the shadow branch buffers at most `maxBufferBytes`
+ * unread bytes and is destroyed once exceeded, so that a slow or queued
+ * shadow invocation never blocks the actual invocation.
+ */
+export function teeMirrorInput(
+  input: Buffer | Readable,
+  maxBufferBytes = kDefaultMaxBufferBytes
+): MirrorInput {
+  if (Buffer.isBuffer(input)) {
+    return { primary: input, shadow: input };
+  }
+
+  const primary = new PassThrough();
+  const shadow = new Readable({
+    highWaterMark: maxBufferBytes,
+    read() {},
+  });
+  // The shadow invocation may not have consumed the branch yet.
+  shadow.on('error', () => {});
+  input.on('data', (chunk: Buffer) => {
+    if (shadow.destroyed) {
+      return;
+    }
+    if (shadow.readableLength + chunk.byteLength > maxBufferBytes) {
+      shadow.destroy(new Error('Mirrored request body buffer overflowed.'));
+      return;
+    }
+    shadow.push(chunk);
+  });
+  input.once('end', () => {
+    if (!shadow.destroyed) {
+      shadow.push(null);
+    }
+  });
+  input.once('error', e => {
+    primary.destroy(e);
+    shadow.destroy(e);
+  });
+  input.pipe(primary);
+  return { primary, shadow };
+}
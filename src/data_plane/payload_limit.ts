@@ -0,0 +1,114 @@
+import { Readable } from 'stream';
+import { RpcError, RpcStatus } from '#self/lib/rpc/error';
+
+export class PayloadTooLargeError extends RpcError {}
+
+export function createPayloadTooLargeError(
+  kind: 'Request' | 'Response',
+  maxBytes: number
+) {
+  return new PayloadTooLargeError(
+    `${kind} body exceeds the limit of ${maxBytes} bytes.`,
+    {
+      code: RpcStatus.RESOURCE_EXHAUSTED,
+    }
+  );
+}
+
+export interface MeteredRequestBody {
+  body: Buffer | Readable;
+  /**
+   * Bytes of the request body read so far.
+   */
+  readonly byteLength: number;
+}
+
+/**
+ * Count the bytes of the request body, and limit the size of it if
+ * `maxBytes` is specified. Buffered bodies are checked immediately, while
+ * streamed bodies are errored once the limit is exceeded and the source is
+ * destroyed to stop buffering the rest.
+ *
+ * Streamed bodies are not read until the metered body is read, so that the
+ * source can be metered again by another invocation if the previous one has
+ * failed before reaching a worker.
+ */
+export function meterRequestBody(
+  input: Buffer | Readable,
+  maxBytes?: number
+): MeteredRequestBody {
+  if (Buffer.isBuffer(input)) {
+    if (maxBytes && input.byteLength > maxBytes) {
+      throw createPayloadTooLargeError('Request', maxBytes);
+    }
+    return { body: input, byteLength: input.byteLength };
+  }
+
+  let byteLength = 0;
+  let reading = false;
+  const onData = (chunk: Buffer) => {
+    byteLength += chunk.byteLength;
+    if (maxBytes && byteLength > maxBytes) {
+      input.destroy();
+      metered.destroy(createPayloadTooLargeError('Request', maxBytes));
+      return;
+    }
+    if (!metered.push(chunk)) {
+      input.pause();
+    }
+  };
+  const onEnd = () => metered.push(null);
+  const metered = new Readable({
+    read() {
+      if (!reading) {
+        reading = true;
+        input.on('data', onData);
+        input.once('end', onEnd);
+      }
+      input.resume();
+    },
+    destroy(err, callback) {
+      input.off('data', onData);
+      input.off('end', onEnd);
+      callback(err);
+    },
+  });
+  input.once('error', e => metered.destroy(e));
+  return {
+    body: metered,
+    get byteLength() {
+      return byteLength;
+    },
+  };
+}
+
+/**
+ * Settle with the error of the request body if it happens before the response
+ * is returned, otherwise the response is aborted with the error.
+ */
+export function raceRequestBody<T extends { response: Readable }>(
+  future: Promise<T>,
+  body: Readable
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let result: T | undefined;
+    let failed = false;
+    body.once('error', e => {
+      if (result) {
+        result.response.destroy(e);
+        return;
+      }
+      failed = true;
+      reject(e);
+    });
+    future.then(it => {
+      if (failed) {
+        // Nobody is going to consume the response.
+        it.response.destroy();
+        return;
+      }
+      result = it;
+      resolve(it);
+    }, reject);
+  });
+}
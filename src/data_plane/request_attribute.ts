@@ -0,0 +1,28 @@
+import { Metadata } from '#self/delegate/request_response';
+import { RequestAttributeKey } from '#self/lib/json/function_profile';
+
+/**
+ * Get the value of a request attribute.
+ *
+ * Header names are matched case-insensitively, and the header takes
+ * precedence over the baggage if both are configured.
+ */
+export function getRequestAttribute(
+  metadata: Metadata,
+  key: RequestAttributeKey
+): string | undefined {
+  if (key.header) {
+    const name = key.header.toLowerCase();
+    const pair = metadata.headers.find(it => it[0].toLowerCase() === name);
+    if (pair) {
+      return pair[1];
+    }
+  }
+  if (key.baggage) {
+    const pair = metadata.baggage.find(it => it[0] === key.baggage);
+    if (pair) {
+      return pair[1];
+    }
+  }
+  return undefined;
+}
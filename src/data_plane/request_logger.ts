@@ -3,17 +3,20 @@ import { Loggers } from '#self/lib/loggers';
 import { ILogger } from '@midwayjs/logger';
 import { kDefaultRequestId, kDefaultWorkerName } from '#self/lib/constants';
 import { Config } from '#self/config';
+import { RpcError, RpcStatus } from '#self/lib/rpc/error';
 import dayjs from 'dayjs';
 
 export class RequestLogger {
   accessLogger: ILogger;
   errorLogger: ILogger;
   private timestampFormat: string;
+  readonly format: Config['logger']['accessLogFormat'];
 
   constructor(public config: Config) {
     this.accessLogger = Loggers.getPrettySink('access.log');
     this.errorLogger = Loggers.getPrettySink('error.log');
     this.timestampFormat = this.config.logger.timestampFormat;
+    this.format = this.config.logger.accessLogFormat ?? 'text';
   }
 
   error(
@@ -22,6 +25,23 @@ export class RequestLogger {
     err: Error,
     requestId: string = kDefaultRequestId
   ) {
+    if (this.format === 'json') {
+      this.errorLogger.write(
+        JSON.stringify({
+          timestamp: dayjs().format(this.timestampFormat),
+          requestId,
+          pid: process.pid,
+          invokeName: funcName,
+          workerName,
+          errorName: err?.name ?? 'Error',
+          errorCode: getErrorCode(err),
+          errorMessage: err?.message ?? String(err),
+          stack: err?.stack,
+        })
+      );
+      return;
+    }
+
     // logTime, requestId, dataPlanePid, functionName, workerName, error
     this.errorLogger.write(
       `${dayjs().format(this.timestampFormat)} ${requestId} ${
@@ -37,8 +57,28 @@ export class RequestLogger {
     metadata: Metadata,
     status = `${TriggerErrorStatus.DEFAULT}`,
     performance: RequestTiming,
-    bytesSent = 0
+    bytesSent = 0,
+    detail: AccessLogDetail = {}
   ) {
+    if (this.format === 'json') {
+      this.accessLogger.write(
+        JSON.stringify(
+          this.#accessRecord(
+            funcName,
+            workerName,
+            metadata,
+            status,
+            performance,
+            bytesSent,
+            detail
+          )
+        )
+      );
+      return;
+    }
+
+    // The text format is kept as is for existing parsers, details are only
+    // available in json format.
     // logTime, requestId, dataPlanePid, functionName, workerName, method, url, invokeSuccess, timeToFirstByte, timeForQueueing, rt, statusCode, responseSize
     const { method = '-', url = '-', requestId = kDefaultRequestId } = metadata;
     const { ttfb = 0, queueing = 0, rt = 0 } = performance;
@@ -52,6 +92,74 @@ export class RequestLogger {
         } ${ttfb} ${queueing} ${rt} ${status} ${bytesSent}`
     );
   }
+
+  /**
+   * The record of access.log in json format, see
+   * src/lib/json/request_log_schema.json.
+   */
+  #accessRecord(
+    funcName: string,
+    workerName: string,
+    metadata: Metadata,
+    status: string,
+    performance: RequestTiming,
+    bytesSent: number,
+    detail: AccessLogDetail
+  ) {
+    const { method = '-', url = '-', requestId = kDefaultRequestId } = metadata;
+    const { ttfb = 0, queueing = 0, rt = 0 } = performance;
+    const statusCode = Number(status);
+    const error = detail.error as Error | undefined;
+
+    return {
+      timestamp: dayjs().format(this.timestampFormat),
+      requestId,
+      pid: process.pid,
+      invokeName: funcName,
+      serviceName: detail.serviceName || undefined,
+      functionName: detail.functionName ?? funcName,
+      workerName,
+      method,
+      url,
+      success: status === '200',
+      statusCode,
+      queueing,
+      ttfb,
+      rt,
+      bytesReceived: detail.bytesReceived,
+      bytesSent,
+      coldStart: detail.coldStart ?? false,
+      cacheHit: detail.cacheHit ?? false,
+      mirror: detail.mirror ?? false,
+      errorType: kErrorTypes[statusCode],
+      errorCode: error == null ? undefined : getErrorCode(error),
+      errorMessage: error?.message,
+    };
+  }
+}
+
+/**
+ * Fields of access.log besides the text format columns, only the json format
+ * logs them all.
+ */
+export interface AccessLogDetail {
+  serviceName?: string;
+  functionName?: string;
+  bytesReceived?: number;
+  coldStart?: boolean;
+  cacheHit?: boolean;
+  mirror?: boolean;
+  error?: unknown;
+}
+
+/**
+ * Name of the RpcStatus for rpc errors, otherwise the name of the error.
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  if (error instanceof RpcError) {
+    return RpcStatus[error.code] ?? String(error.code);
+  }
+  return (error as Error | undefined)?.name;
 }
 
 export interface RequestTiming {
@@ -67,4 +175,11 @@ export enum TriggerErrorStatus {
   DEFAULT = 0,
   INTERNAL = -1,
   ABORT = -2,
+  PAYLOAD_TOO_LARGE = -3,
 }
+
+const kErrorTypes: Record<number, string> = {
+  [TriggerErrorStatus.INTERNAL]: 'internal',
+  [TriggerErrorStatus.ABORT]: 'abort',
+  [TriggerErrorStatus.PAYLOAD_TOO_LARGE]: 'payload_too_large',
+};
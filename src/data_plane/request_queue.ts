@@ -0,0 +1,192 @@
+import { PriorityQueue } from '@datastructures-js/priority-queue';
+import { List, ReadonlyNode } from '#self/lib/list';
+import { Priority } from '#self/lib/priority_task_queue';
+import { RequestPriorityProfile } from '#self/lib/json/function_profile';
+import type { PendingRequest } from './worker_broker';
+
+const kDefaultAgingInterval = 1000;
+
+export interface RequestQueue {
+  readonly length: number;
+
+  push(request: PendingRequest): void;
+  /**
+   * Remove the request from the queue, no-op if it is not in the queue.
+   */
+  remove(request: PendingRequest): void;
+  /**
+   * Return the next request to be dispatched and remove it.
+   */
+  shift(): PendingRequest | undefined;
+  values(): IterableIterator<PendingRequest>;
+}
+
+/**
+ * First-in-first-out request queue.
+ *
+ * If `lifoThreshold` is set, the queue switches to last-in-first-out while the
+ * oldest request has been queued longer than `lifoThreshold` milliseconds, so
+ * that the newest requests, whose callers are still waiting, are served first.
+ */
+export class FifoRequestQueue implements RequestQueue {
+  private _list = new List<PendingRequest>();
+  private _nodes = new Map<PendingRequest, ReadonlyNode<PendingRequest>>();
+
+  constructor(private _lifoThreshold = 0) {}
+
+  get length() {
+    return this._list.length;
+  }
+
+  push(request: PendingRequest) {
+    this._nodes.set(request, this._list.push(request));
+  }
+
+  remove(request: PendingRequest) {
+    const node = this._nodes.get(request);
+    if (node == null) {
+      return;
+    }
+    this._nodes.delete(request);
+    this._list.remove(node);
+  }
+
+  shift() {
+    const request = this.overloaded ? this._list.pop() : this._list.shift();
+    if (request) {
+      this._nodes.delete(request);
+    }
+    return request;
+  }
+
+  values() {
+    return this._list.values();
+  }
+
+  /**
+   * Whether the oldest request has been queued longer than the LIFO
+   * threshold.
+   */
+  get overloaded() {
+    if (this._lifoThreshold <= 0) {
+      return false;
+    }
+    const oldest = this._list.at(0);
+    return (
+      oldest != null && Date.now() - oldest.startEpoch > this._lifoThreshold
+    );
+  }
+}
+
+interface PriorityRequestItem {
+  request: PendingRequest;
+  rank: number;
+  seq: number;
+  removed: boolean;
+}
+
+/**
+ * Request queue that yields the request with highest priority first.
+ *
+ * A queued request's effective priority grows by 1 every `agingInterval`
+ * milliseconds so that low priority requests still progress. As every queued
+ * request ages at the same pace, the order of two requests is determined by
+ * `priority - startEpoch / agingInterval`, which doesn't change over time.
+ */
+export class PriorityRequestQueue implements RequestQueue {
+  private _queue: PriorityQueue<PriorityRequestItem>;
+  private _items = new Map<PendingRequest, PriorityRequestItem>();
+  private _seq = 0;
+
+  constructor(private _agingInterval: number) {
+    this._queue = new PriorityQueue<PriorityRequestItem>((lhs, rhs) => {
+      if (lhs.rank !== rhs.rank) {
+        return lhs.rank > rhs.rank ? -1 : 1;
+      }
+      return lhs.seq - rhs.seq;
+    });
+  }
+
+  get length() {
+    return this._items.size;
+  }
+
+  push(request: PendingRequest) {
+    const item: PriorityRequestItem = {
+      request,
+      rank: request.priority - request.startEpoch / this._agingInterval,
+      seq: this._seq++,
+      removed: false,
+    };
+    this._items.set(request, item);
+    this._queue.enqueue(item);
+  }
+
+  remove(request: PendingRequest) {
+    const item = this._items.get(request);
+    if (item == null) {
+      return;
+    }
+    // Removed items are skipped lazily on shift.
+    item.removed = true;
+    this._items.delete(request);
+  }
+
+  shift() {
+    while (!this._queue.isEmpty()) {
+      const item = this._queue.dequeue();
+      if (item.removed) {
+        continue;
+      }
+      this._items.delete(item.request);
+      return item.request;
+    }
+    return undefined;
+  }
+
+  values() {
+    return this._items.keys();
+  }
+}
+
+/**
+ * Parse the priority of a request from the attribute value. Accepts either
+ * an integer or one of `high`, `normal` and `low`. Integers are clamped to
+ * `[Priority.kLow, Priority.kHigh]` so that callers can not outrank aged
+ * requests.
+ */
+export function parseRequestPriority(value: string | undefined): number {
+  if (value == null) {
+    return Priority.kNormal;
+  }
+  switch (value.toLowerCase()) {
+    case 'high':
+      return Priority.kHigh;
+    case 'normal':
+      return Priority.kNormal;
+    case 'low':
+      return Priority.kLow;
+  }
+  const priority = Number.parseInt(value, 10);
+  if (Number.isNaN(priority)) {
+    return Priority.kNormal;
+  }
+  return Math.min(Math.max(priority, Priority.kLow), Priority.kHigh);
+}
+
+/**
+ * @param requestPriority The request priority profile, requests are queued
+ * first-in-first-out if not set.
+ * @param adaptiveLifoThreshold Not applicable if `requestPriority` is set.
+ */
+export function createRequestQueue(
+  requestPriority: RequestPriorityProfile | undefined,
+  adaptiveLifoThreshold?: number
+): RequestQueue {
+  if (requestPriority == null) {
+    return new FifoRequestQueue(adaptiveLifoThreshold);
+  }
+  return new PriorityRequestQueue(
+    requestPriority.agingInterval || kDefaultAgingInterval
+  );
+}
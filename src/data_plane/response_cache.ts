@@ -0,0 +1,471 @@
+import LRU from 'lru-cache';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import { FunctionResponseCacheProfile } from '#self/lib/json/function_profile';
+import { RpcError, RpcStatus } from '#self/lib/rpc/error';
+
+const kDefaultMaxBytes = 16 * 1024 * 1024;
+const kDefaultMaxEntryBytes = 1024 * 1024;
+const kMaxEntryCount = 4096;
+const kCacheableMethods = ['GET', 'HEAD'];
+const kConditionalHeaders = ['if-none-match', 'if-modified-since'];
+
+/**
+ * + hit: served from the cache, including revalidated entries.
+ * + miss: served by the function.
+ * + bypass: the request is not cacheable.
+ */
+export type ResponseCacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface ResponseCacheResult {
+  response: TriggerResponse;
+  status: ResponseCacheStatus;
+}
+
+interface CacheEntry {
+  /**
+   * The key of the entry, including values of the request headers listed in
+   * `vary`.
+   */
+  key: string;
+  vary: string[];
+  /**
+   * Whether the entry can be served to requests with `authorization`.
+   */
+  shared: boolean;
+  status: number;
+  headers: [string, string][];
+  body: Buffer;
+  etag?: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+type Invoke = (metadata: Metadata) => Promise<TriggerResponse>;
+
+/**
+ * Caches responses of GET and HEAD requests by `cache-control`, `etag` and
+ * `vary` response headers, following the rules of shared caches in RFC 9111.
+ * Concurrent misses of the same request are coalesced into one invocation.
+ */
+export class ResponseCache {
+  private _entries: LRU<string, CacheEntry>;
+  /**
+   * Names of the request headers that the responses vary on, by url.
+   */
+  private _vary: LRU<string, string[]>;
+  private _pending = new Map<string, Promise<CacheEntry | undefined>>();
+  private _maxEntryBytes: number;
+
+  constructor(profile: FunctionResponseCacheProfile) {
+    this._maxEntryBytes = profile.maxEntryBytes || kDefaultMaxEntryBytes;
+    this._entries = new LRU({
+      max: kMaxEntryCount,
+      maxSize: profile.maxBytes || kDefaultMaxBytes,
+      sizeCalculation: entry => Math.max(entry.body.byteLength, 1),
+    });
+    this._vary = new LRU({ max: kMaxEntryCount });
+  }
+
+  get size() {
+    return this._entries.size;
+  }
+
+  async fetch(
+    metadata: Metadata,
+    invoke: Invoke
+  ): Promise<ResponseCacheResult> {
+    const method = metadata.method.toUpperCase();
+    const requestDirectives = parseCacheControl(
+      getHeader(metadata.headers, 'cache-control')
+    );
+    if (
+      !kCacheableMethods.includes(method) ||
+      requestDirectives.has('no-store')
+    ) {
+      return { response: await invoke(metadata), status: 'bypass' };
+    }
+
+    const url = `${method} ${metadata.url ?? ''}`;
+    const key = getVariantKey(url, this._vary.get(url) ?? [], metadata);
+    let entry = this._entries.get(key);
+    if (entry && !matchEntry(entry, url, metadata)) {
+      entry = undefined;
+    }
+    if (
+      entry &&
+      entry.expiresAt > Date.now() &&
+      !requestDirectives.has('no-cache')
+    ) {
+      return { response: serve(entry, metadata), status: 'hit' };
+    }
+
+    const pending = this._pending.get(key);
+    if (pending) {
+      const coalesced = await waitForCoalesced(pending, metadata);
+      if (coalesced && matchEntry(coalesced, url, metadata)) {
+        return { response: serve(coalesced, metadata), status: 'hit' };
+      }
+      return { response: await invoke(metadata), status: 'miss' };
+    }
+
+    return this._revalidate(url, key, entry, metadata, invoke);
+  }
+
+  private async _revalidate(
+    url: string,
+    key: string,
+    stale: CacheEntry | undefined,
+    metadata: Metadata,
+    invoke: Invoke
+  ): Promise<ResponseCacheResult> {
+    let settled = false;
+    let resolve!: (entry: CacheEntry | undefined) => void;
+    const pending = new Promise<CacheEntry | undefined>(it => {
+      resolve = it;
+    });
+    const settle = (entry?: CacheEntry) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      this._pending.delete(key);
+      resolve(entry);
+    };
+    this._pending.set(key, pending);
+
+    // The response is shared with coalesced requests, conditions of the
+    // caller are evaluated against the cached entry instead.
+    const headers = metadata.headers.filter(
+      it => !kConditionalHeaders.includes(it[0].toLowerCase())
+    );
+    if (stale?.etag) {
+      headers.push(['if-none-match', stale.etag]);
+    }
+    const upstreamMetadata = new Metadata({
+      ...metadata.toJSON(),
+      headers,
+      signal: metadata.signal,
+    });
+
+    let response: TriggerResponse;
+    try {
+      response = await invoke(upstreamMetadata);
+    } catch (e) {
+      settle();
+      throw e;
+    }
+
+    if (stale && response.status === 304) {
+      response.resume();
+      // Headers of the not modified response update the stored ones.
+      const updated = response.metadata.headers;
+      const names = new Set(updated.map(it => it[0].toLowerCase()));
+      const headers = [
+        ...stale.headers.filter(it => !names.has(it[0].toLowerCase())),
+        ...updated,
+      ];
+      const entry: CacheEntry = {
+        ...stale,
+        shared: isShared(headers),
+        headers,
+        storedAt: Date.now(),
+        expiresAt: Date.now() + getFreshness(headers),
+      };
+      this._entries.set(stale.key, entry);
+      settle(entry);
+      return { response: serve(entry, metadata), status: 'hit' };
+    }
+
+    const authorized = isAuthorized(metadata);
+    if (!isStorable(response, authorized)) {
+      // Responses to authorized requests do not invalidate shared entries.
+      if (!authorized) {
+        this._entries.delete(key);
+      }
+      settle();
+      return { response, status: 'miss' };
+    }
+
+    const vary = parseVary(response.metadata.headers);
+    this._vary.set(url, vary);
+    const entryKey = getVariantKey(url, vary, metadata);
+    return {
+      response: this._tee(entryKey, vary, response, settle),
+      status: 'miss',
+    };
+  }
+
+  /**
+   * Stream the response to the caller while keeping a copy of the body, the
+   * entry is stored once the response ends within the size limit. The body is
+   * buffered regardless of the caller's pace until the size limit is exceeded,
+   * so that coalesced requests are not blocked by a slow caller.
+   */
+  private _tee(
+    key: string,
+    vary: string[],
+    response: TriggerResponse,
+    settle: (entry?: CacheEntry) => void
+  ) {
+    const chunks: Buffer[] = [];
+    let byteLength = 0;
+    let overflowed = false;
+
+    const tee = new TriggerResponse({
+      status: response.status,
+      metadata: response.metadata,
+      read() {
+        response.resume();
+      },
+      destroy(err, cb) {
+        settle();
+        response.destroy(err ?? undefined);
+        cb(err);
+      },
+    });
+    tee.workerName = response.workerName;
+    tee.queueing = response.queueing;
+    tee.coldStart = response.coldStart;
+
+    response.on('data', (chunk: Buffer) => {
+      if (!overflowed) {
+        byteLength += chunk.byteLength;
+        overflowed = byteLength > this._maxEntryBytes;
+        if (overflowed) {
+          chunks.length = 0;
+          // Not going to be stored, coalesced requests invoke on their own.
+          settle();
+        } else {
+          chunks.push(chunk);
+        }
+      }
+      if (!tee.push(chunk) && overflowed) {
+        response.pause();
+      }
+    });
+    response.on('end', () => {
+      let entry: CacheEntry | undefined;
+      if (!overflowed) {
+        const headers = response.metadata.headers;
+        entry = {
+          key,
+          vary,
+          shared: isShared(headers),
+          status: response.status,
+          headers,
+          body: Buffer.concat(chunks),
+          etag: getHeader(headers, 'etag'),
+          storedAt: Date.now(),
+          expiresAt: Date.now() + getFreshness(headers),
+        };
+        this._entries.set(key, entry);
+      }
+      settle(entry);
+      tee.push(null);
+    });
+    response.on('error', e => {
+      settle();
+      tee.destroy(e);
+    });
+    return tee;
+  }
+}
+
+export function createResponseCache(profile?: FunctionResponseCacheProfile) {
+  if (profile == null) {
+    return;
+  }
+  return new ResponseCache(profile);
+}
+
+function serve(entry: CacheEntry, metadata: Metadata) {
+  const ifNoneMatch = getHeader(metadata.headers, 'if-none-match');
+  const notModified =
+    entry.etag != null &&
+    ifNoneMatch != null &&
+    matchETag(ifNoneMatch, entry.etag);
+
+  const age = Math.floor((Date.now() - entry.storedAt) / 1000);
+  const response = new TriggerResponse({
+    read() {},
+    status: notModified ? 304 : entry.status,
+    metadata: {
+      headers: [...entry.headers, ['age', String(age)]],
+    },
+  });
+  if (!notModified) {
+    response.push(entry.body);
+  }
+  response.push(null);
+  return response;
+}
+
+/**
+ * Wait for the coalesced invocation until the deadline of the request, or the
+ * request is aborted by the caller.
+ */
+function waitForCoalesced(
+  pending: Promise<CacheEntry | undefined>,
+  metadata: Metadata
+) {
+  return new Promise<CacheEntry | undefined>((resolve, reject) => {
+    const signal = metadata.signal;
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(
+        new RpcError(`Request(${metadata.requestId}) aborted by caller.`, {
+          code: RpcStatus.CANCELLED,
+        })
+      );
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(
+        new RpcError(
+          `Waiting for coalesced response has timed out at ${metadata.deadline}, request(${metadata.requestId}).`,
+          {
+            code: RpcStatus.DEADLINE_EXCEEDED,
+          }
+        )
+      );
+    }, metadata.deadline - Date.now());
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+    pending.then(entry => {
+      cleanup();
+      resolve(entry);
+    });
+  });
+}
+
+/**
+ * Only successful responses that are explicitly fresh for a while, or that can
+ * be revalidated by etag, are stored. Responses to authorized requests are
+ * stored only if explicitly allowed.
+ */
+function isStorable(response: TriggerResponse, authorized: boolean) {
+  if (response.status !== 200) {
+    return false;
+  }
+  const headers = response.metadata.headers;
+  if (getHeader(headers, 'set-cookie') != null) {
+    return false;
+  }
+  const directives = parseCacheControl(getHeader(headers, 'cache-control'));
+  if (directives.has('no-store') || directives.has('private')) {
+    return false;
+  }
+  if (parseVary(headers).includes('*')) {
+    return false;
+  }
+  if (authorized && !isShared(headers)) {
+    return false;
+  }
+  return getFreshness(headers) > 0 || getHeader(headers, 'etag') != null;
+}
+
+/**
+ * Whether the response can be stored for, and served to, requests with
+ * `authorization`, see RFC 9111 section 3.5.
+ */
+function isShared(headers: [string, string][]) {
+  const directives = parseCacheControl(getHeader(headers, 'cache-control'));
+  return (
+    directives.has('public') ||
+    directives.has('s-maxage') ||
+    directives.has('must-revalidate')
+  );
+}
+
+function isAuthorized(metadata: Metadata) {
+  return getHeader(metadata.headers, 'authorization') != null;
+}
+
+function matchEntry(entry: CacheEntry, url: string, metadata: Metadata) {
+  if (isAuthorized(metadata) && !entry.shared) {
+    return false;
+  }
+  return getVariantKey(url, entry.vary, metadata) === entry.key;
+}
+
+/**
+ * Lower cased names of the request headers listed in `vary`.
+ */
+function parseVary(headers: [string, string][]) {
+  const names = new Set<string>();
+  for (const [name, value] of headers) {
+    if (name.toLowerCase() !== 'vary') {
+      continue;
+    }
+    for (const it of value.split(',')) {
+      if (it.trim() !== '') {
+        names.add(it.trim().toLowerCase());
+      }
+    }
+  }
+  return Array.from(names).sort();
+}
+
+function getVariantKey(url: string, vary: string[], metadata: Metadata) {
+  let key = url;
+  for (const name of vary) {
+    const values = metadata.headers
+      .filter(it => it[0].toLowerCase() === name)
+      .map(it => it[1]);
+    key += `\n${name}: ${values.join(', ')}`;
+  }
+  return key;
+}
+
+/**
+ * Freshness lifetime in milliseconds.
+ */
+function getFreshness(headers: [string, string][]) {
+  const directives = parseCacheControl(getHeader(headers, 'cache-control'));
+  if (directives.has('no-cache')) {
+    return 0;
+  }
+  const maxAge = Number.parseInt(
+    directives.get('s-maxage') ?? directives.get('max-age') ?? '',
+    10
+  );
+  return Number.isNaN(maxAge) || maxAge < 0 ? 0 : maxAge * 1000;
+}
+
+function parseCacheControl(value?: string) {
+  const directives = new Map<string, string | undefined>();
+  for (const directive of (value ?? '').split(',')) {
+    const [name, arg] = directive.split('=');
+    if (name.trim() === '') {
+      continue;
+    }
+    directives.set(
+      name.trim().toLowerCase(),
+      arg?.trim().replace(/^"(.*)"$/, '$1')
+    );
+  }
+  return directives;
+}
+
+/**
+ * Weak comparison as the `if-none-match` request header requires.
+ */
+function matchETag(ifNoneMatch: string, etag: string) {
+  if (ifNoneMatch.trim() === '*') {
+    return true;
+  }
+  const normalize = (it: string) => it.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(it => normalize(it) === normalize(etag));
+}
+
+function getHeader(headers: [string, string][], name: string) {
+  return headers.find(it => it[0].toLowerCase() === name)?.[1];
+}
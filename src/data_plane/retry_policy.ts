@@ -0,0 +1,88 @@
+import { Readable } from 'stream';
+import { Metadata } from '#self/delegate/request_response';
+import { FunctionRetryProfile } from '#self/lib/json/function_profile';
+
+const kDefaultMaxAttempts = 2;
+const kDefaultErrorCodes = ['PEER_CONNECTION_CLOSED', 'CONNECTION_RESET'];
+const kDefaultMethods = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Decides whether a failed invocation can be retried on another worker.
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private _errorCodes: Set<string>;
+  private _methods: Set<string>;
+
+  constructor(profile: FunctionRetryProfile) {
+    this.maxAttempts = profile.maxAttempts || kDefaultMaxAttempts;
+    // Repeated fields are decoded as empty arrays if not set.
+    this._errorCodes = new Set(
+      profile.errorCodes?.length ? profile.errorCodes : kDefaultErrorCodes
+    );
+    this._methods = new Set(
+      (profile.methods?.length ? profile.methods : kDefaultMethods).map(it =>
+        it.toUpperCase()
+      )
+    );
+  }
+
+  /**
+   * @param error The error the last attempt failed with.
+   * @param input The request body.
+   * @param metadata The request metadata.
+   * @param attempts Count of attempts have been made.
+   */
+  shouldRetry(
+    error: unknown,
+    input: Readable | Buffer,
+    metadata: Metadata,
+    attempts: number
+  ) {
+    if (attempts >= this.maxAttempts) {
+      return false;
+    }
+    if (Date.now() >= metadata.deadline) {
+      return false;
+    }
+    if (!this._methods.has(metadata.method.toUpperCase())) {
+      return false;
+    }
+    if (!this._isRetryableError(error)) {
+      return false;
+    }
+    return isReplayable(input);
+  }
+
+  private _isRetryableError(error: unknown) {
+    if (error == null || typeof error !== 'object') {
+      return false;
+    }
+    const { name, code, codeName } = error as {
+      name?: unknown;
+      code?: unknown;
+      codeName?: unknown;
+    };
+    return [name, code, codeName].some(
+      it => typeof it === 'string' && this._errorCodes.has(it)
+    );
+  }
+}
+
+/**
+ * Buffers can be sent again, while streams can only be sent again if nothing
+ * has been read from them.
+ */
+export function isReplayable(input: Readable | Buffer) {
+  if (Buffer.isBuffer(input)) {
+    return true;
+  }
+  return !input.readableDidRead && !input.destroyed && !input.readableEnded;
+}
+
+export function createRetryPolicy(profile: FunctionRetryProfile | undefined) {
+  if (profile == null) {
+    return undefined;
+  }
+  return new RetryPolicy(profile);
+}
@@ -1,27 +1,96 @@
+import crypto from 'crypto';
 import _ from 'lodash';
 import * as root from '#self/proto/root';
+import { Metadata } from '#self/delegate/request_response';
+import { RequestAttributeKey } from '#self/lib/json/function_profile';
+import { tryQ } from '#self/lib/util';
+import { getRequestAttribute } from './request_attribute';
 
-export type ServiceType = 'default' | 'proportional-load-balance';
+export type ServiceType =
+  | 'default'
+  | 'proportional-load-balance'
+  | 'rule-based'
+  | 'failover';
 
 export interface LoadBalanceSelector {
   selector: DefaultServiceSelector;
-  proportion: number;
+  /**
+   * Not applicable to failover services.
+   */
+  proportion?: number;
 }
 
 export interface DefaultServiceSelector {
   functionName: string;
 }
 
+/**
+ * All of the specified conditions should be met for a rule to match.
+ */
+export interface ServiceRuleMatch {
+  pathPrefix?: string;
+  /**
+   * Matched case-insensitively.
+   */
+  method?: string;
+  /**
+   * Header names are matched case-insensitively, values are matched exactly.
+   */
+  headers?: Record<string, string>;
+  baggage?: Record<string, string>;
+}
+
+export interface ServiceRule {
+  match: ServiceRuleMatch;
+  selector: DefaultServiceSelector;
+}
+
+/**
+ * Copies of the sampled requests are sent to the shadow function, of which
+ * the responses are discarded.
+ */
+export interface ServiceMirror {
+  selector: DefaultServiceSelector;
+  /**
+   * Percentage of requests to be mirrored, in [0, 100].
+   */
+  percentage: number;
+}
+
 export interface ServiceProfileItem
-  extends Omit<root.noslated.data.IFunctionService, 'selectors' | 'selector'> {
+  extends Omit<
+    root.noslated.data.IFunctionService,
+    'selectors' | 'selector' | 'rules' | 'stickyKey' | 'mirror'
+  > {
   name: string;
   type: ServiceType;
+  /**
+   * Targets of proportional services, or the ordered targets of failover
+   * services.
+   */
   selectors?: LoadBalanceSelector[];
+  /**
+   * Requests with the same value of the attribute are routed to the same
+   * target of proportional services while the proportions are unchanged.
+   * Requests without the attribute are routed randomly.
+   */
+  stickyKey?: RequestAttributeKey;
+  /**
+   * The target of default services, or the fallback target of rule-based
+   * services if none of the rules matches.
+   */
   selector?: DefaultServiceSelector;
+  /**
+   * Rules of rule-based services, the first matching rule wins.
+   */
+  rules?: ServiceRule[];
+  mirror?: ServiceMirror;
 }
 
 enum ServiceTypes {
   ProportionalLoadBalance = 'proportional-load-balance',
+  RuleBased = 'rule-based',
+  Failover = 'failover',
 }
 
 class ServiceSelector {
@@ -37,14 +106,33 @@ class ServiceSelector {
     return Array.from(this.map.values());
   }
 
-  select(serviceName: string) {
+  /**
+   * Select the targets to try in order, only failover services may have more
+   * than one target.
+   */
+  selectAll(serviceName: string, metadata: Metadata): DefaultServiceSelector[] {
+    const item = this.map.get(serviceName);
+    if (item?.type === ServiceTypes.Failover) {
+      return (item.selectors ?? []).map(it => it.selector);
+    }
+    const selector = this.select(serviceName, metadata);
+    return selector ? [selector] : [];
+  }
+
+  select(serviceName: string, metadata: Metadata) {
     const item = this.map.get(serviceName);
     if (item == null) {
       return;
     }
     switch (item.type) {
+      case ServiceTypes.Failover: {
+        return item.selectors?.[0]?.selector;
+      }
       case ServiceTypes.ProportionalLoadBalance: {
-        return this.proportionalSelect(item);
+        return this.proportionalSelect(item, metadata);
+      }
+      case ServiceTypes.RuleBased: {
+        return this.ruleBasedSelect(item, metadata);
       }
       default: {
         return item.selector;
@@ -52,18 +140,76 @@ class ServiceSelector {
     }
   }
 
-  proportionalSelect(item: ServiceProfileItem) {
-    const rnd = Math.random();
+  /**
+   * Sample the request to be mirrored, returns the shadow target if sampled.
+   */
+  selectMirror(serviceName: string): DefaultServiceSelector | undefined {
+    const mirror = this.map.get(serviceName)?.mirror;
+    if (mirror == null || Math.random() * 100 >= mirror.percentage) {
+      return;
+    }
+    return mirror.selector;
+  }
+
+  proportionalSelect(item: ServiceProfileItem, metadata: Metadata) {
+    const key = item.stickyKey
+      ? getRequestAttribute(metadata, item.stickyKey)
+      : undefined;
+    const rnd = key == null ? Math.random() : hashToUnitInterval(key);
     let prev = 0;
 
     for (const selector of item.selectors as LoadBalanceSelector[]) {
-      prev += selector.proportion;
+      prev += selector.proportion ?? 0;
       if (rnd < prev) {
         return selector.selector;
       }
     }
     return _.last(item.selectors)!.selector;
   }
+
+  ruleBasedSelect(item: ServiceProfileItem, metadata: Metadata) {
+    const rule = item.rules?.find(it => matchRule(it.match, metadata));
+    return rule?.selector ?? item.selector;
+  }
+}
+
+/**
+ * Hash the key deterministically into [0, 1).
+ */
+function hashToUnitInterval(key: string) {
+  const hash = crypto.createHash('md5').update(key).digest().readUInt32BE(0);
+  return hash / 0x1_0000_0000;
+}
+
+function matchRule(match: ServiceRuleMatch, metadata: Metadata) {
+  if (match.pathPrefix) {
+    const pathname = tryQ(
+      () => new URL(metadata.url ?? '', 'http://localhost').pathname
+    );
+    if (pathname == null || !pathname.startsWith(match.pathPrefix)) {
+      return false;
+    }
+  }
+  if (
+    match.method &&
+    match.method.toUpperCase() !== metadata.method.toUpperCase()
+  ) {
+    return false;
+  }
+  for (const [key, value] of Object.entries(match.headers ?? {})) {
+    const name = key.toLowerCase();
+    const pair = metadata.headers.find(it => it[0].toLowerCase() === name);
+    if (pair?.[1] !== value) {
+      return false;
+    }
+  }
+  for (const [key, value] of Object.entries(match.baggage ?? {})) {
+    const pair = metadata.baggage.find(it => it[0] === key);
+    if (pair?.[1] !== value) {
+      return false;
+    }
+  }
+  return true;
 }
 
 export { ServiceSelector };
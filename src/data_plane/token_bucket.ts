@@ -1,3 +1,14 @@
+import LRU from 'lru-cache';
+import { List } from '#self/lib/list';
+import { createDeferred, Deferred } from '#self/lib/util';
+
+const kDefaultMaxKeyCount = 1024;
+
+interface TokenWaiter {
+  deferred: Deferred<boolean>;
+  timer: NodeJS.Timeout;
+}
+
 export class TokenBucket {
   #tokenCount = 0;
   #maxTokenCount = 0;
@@ -13,9 +24,17 @@ export class TokenBucket {
     } else {
       this.#tokenCount = this.#maxTokenCount;
     }
+
+    while (this.#tokenCount > 0 && this.#waiters.length) {
+      const waiter = this.#waiters.shift()!;
+      this.#tokenCount--;
+      clearTimeout(waiter.timer);
+      waiter.deferred.resolve(true);
+    }
   };
 
   #refillInterval: NodeJS.Timer | undefined;
+  #waiters = new List<TokenWaiter>();
 
   constructor(config: TokenBucketConfig = {}) {
     this.#config = config;
@@ -28,6 +47,18 @@ export class TokenBucket {
     return this.#tokenCount;
   }
 
+  get maxTokenCount() {
+    return this.#maxTokenCount;
+  }
+
+  get waitingCount() {
+    return this.#waiters.length;
+  }
+
+  refill() {
+    this.#refill();
+  }
+
   acquire() {
     if (!this.#started) {
       throw new Error('rate limit unavailable');
@@ -42,6 +73,29 @@ export class TokenBucket {
     return true;
   }
 
+  /**
+   * Acquire a token, wait for the refills in first-in-first-out order if no
+   * token is available.
+   * @param deadline The epoch time to give up waiting.
+   * @return Resolves with false if no token acquired before the deadline or
+   * the bucket has been closed.
+   */
+  acquireUntil(deadline: number): Promise<boolean> {
+    // Tokens are only available if there are no waiters, as the waiters are
+    // served first on refill.
+    if (this.acquire()) {
+      return Promise.resolve(true);
+    }
+
+    const deferred = createDeferred<boolean>();
+    const timer = setTimeout(() => {
+      this.#waiters.remove(node);
+      deferred.resolve(false);
+    }, deadline - Date.now());
+    const node = this.#waiters.push({ deferred, timer });
+    return deferred.promise;
+  }
+
   start() {
     this.#started = true;
 
@@ -57,6 +111,130 @@ export class TokenBucket {
     this.#started = false;
     this.#tokenCount = 0;
     clearInterval(this.#refillInterval);
+
+    while (this.#waiters.length) {
+      const waiter = this.#waiters.shift()!;
+      clearTimeout(waiter.timer);
+      waiter.deferred.resolve(false);
+    }
+  }
+}
+
+/**
+ * Token buckets keyed by an arbitrary string, e.g. the caller id. Buckets are
+ * refilled with a shared interval and the refilled-to-full buckets are
+ * dropped as they are identical to a newly created one. At most
+ * `maxKeyCount` buckets are kept, the least recently used bucket is evicted
+ * when the limit is exceeded. Evicted buckets that still have waiters are kept
+ * aside until the waiters are settled, so that waiters are not rejected by the
+ * churn of other keys.
+ */
+export class KeyedTokenBucket {
+  #config: KeyedTokenBucketConfig;
+  #buckets: LRU<string, TokenBucket>;
+  #evictedBuckets = new Map<string, TokenBucket>();
+  #started = false;
+
+  #refill = () => {
+    for (const [key, bucket] of Array.from(this.#buckets.entries())) {
+      bucket.refill();
+      if (bucket.tokenCount >= bucket.maxTokenCount) {
+        this.#buckets.delete(key);
+      }
+    }
+    for (const [key, bucket] of Array.from(this.#evictedBuckets.entries())) {
+      bucket.refill();
+      if (bucket.waitingCount === 0) {
+        this.#evictedBuckets.delete(key);
+        bucket.close();
+      }
+    }
+  };
+
+  #refillInterval: NodeJS.Timer | undefined;
+
+  constructor(config: KeyedTokenBucketConfig = {}) {
+    this.#config = config;
+    this.#buckets = new LRU({
+      max: config.maxKeyCount ?? kDefaultMaxKeyCount,
+      dispose: (bucket, key, reason) => {
+        if (reason === 'evict' && bucket.waitingCount > 0) {
+          this.#evictedBuckets.set(key, bucket);
+          return;
+        }
+        bucket.close();
+      },
+    });
+    this.#refillInterval = undefined;
+  }
+
+  get keyCount() {
+    return this.#buckets.size + this.#evictedBuckets.size;
+  }
+
+  get waitingCount() {
+    let count = 0;
+    for (const bucket of this.#buckets.values()) {
+      count += bucket.waitingCount;
+    }
+    for (const bucket of this.#evictedBuckets.values()) {
+      count += bucket.waitingCount;
+    }
+    return count;
+  }
+
+  acquire(key: string) {
+    return this.#getBucket(key).acquire();
+  }
+
+  acquireUntil(key: string, deadline: number) {
+    return this.#getBucket(key).acquireUntil(deadline);
+  }
+
+  #getBucket(key: string) {
+    if (!this.#started) {
+      throw new Error('rate limit unavailable');
+    }
+
+    let bucket = this.#buckets.get(key);
+    if (bucket == null) {
+      bucket = this.#evictedBuckets.get(key);
+      if (bucket?.waitingCount) {
+        return bucket;
+      }
+      // Waiters have given up, start over.
+      this.#evictedBuckets.delete(key);
+      bucket?.close();
+
+      bucket = new TokenBucket({
+        maxTokenCount: this.#config.maxTokenCount,
+        tokensPerFill: this.#config.tokensPerFill,
+      });
+      bucket.start();
+      this.#buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  start() {
+    this.#started = true;
+
+    if (this.#config.fillInterval) {
+      this.#refillInterval = setInterval(
+        this.#refill,
+        this.#config.fillInterval
+      );
+    }
+  }
+
+  close() {
+    this.#started = false;
+    this.#buckets.clear();
+    for (const bucket of this.#evictedBuckets.values()) {
+      bucket.close();
+    }
+    this.#evictedBuckets.clear();
+    clearInterval(this.#refillInterval);
   }
 }
 
@@ -65,3 +243,7 @@ export interface TokenBucketConfig {
   tokensPerFill?: number;
   fillInterval?: number;
 }
+
+export interface KeyedTokenBucketConfig extends TokenBucketConfig {
+  maxKeyCount?: number;
+}
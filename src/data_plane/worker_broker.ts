@@ -1,9 +1,27 @@
 import EventEmitter from 'events';
+import _ from 'lodash';
 import * as utils from '#self/lib/util';
-import { TokenBucket, TokenBucketConfig } from './token_bucket';
+import {
+  KeyedTokenBucket,
+  KeyedTokenBucketConfig,
+  TokenBucket,
+  TokenBucketConfig,
+} from './token_bucket';
 import { RpcError, RpcStatus } from '#self/lib/rpc/error';
 import { Base } from '#self/lib/sdk_base';
-import { PlaneMetricAttributes } from '#self/lib/telemetry/semantic_conventions';
+import {
+  DataPlaneMetricAttributes,
+  PlaneMetricAttributes,
+  TraceAttributes,
+  TraceSpans,
+} from '#self/lib/telemetry/semantic_conventions';
+import {
+  endSpan,
+  endSpanOnClose,
+  injectTraceContext,
+  startSpan,
+} from '#self/lib/telemetry/trace';
+import { Span } from '@opentelemetry/api';
 import { Readable } from 'stream';
 import { Metadata, TriggerResponse } from '#self/delegate/request_response';
 import { NoslatedDelegateService } from '#self/delegate';
@@ -13,16 +31,31 @@ import * as root from '#self/proto/root';
 import { performance } from 'perf_hooks';
 import { WorkerStatusReport, kDefaultRequestId } from '#self/lib/constants';
 import { DataPlaneHost } from './data_plane_host';
-import { List, ReadonlyNode } from '#self/lib/list';
+import { ReadonlyNode } from '#self/lib/list';
 import { RawWithDefaultsFunctionProfile } from '#self/lib/json/function_profile';
 import { Dispatcher, DispatcherDelegate } from './dispatcher/dispatcher';
 import { DisposableDispatcher } from './dispatcher/disposable';
 import { LeastRequestCountDispatcher } from './dispatcher/least_request_count';
 import { RoundRobinDispatcher } from './dispatcher/round_robin';
+import { ConsistentHashDispatcher } from './dispatcher/consistent_hash';
+import { P2cEwmaDispatcher } from './dispatcher/p2c_ewma';
 import {
   ConcurrencyStatsFactory,
   ConcurrencyStats,
 } from '#self/lib/concurrency_stats/index';
+import { Priority } from '#self/lib/priority_task_queue';
+import {
+  RequestQueue,
+  createRequestQueue,
+  parseRequestPriority,
+} from './request_queue';
+import { getRequestAttribute } from './request_attribute';
+import {
+  FunctionCircuitBreaker,
+  FunctionCircuitBreakerOpenedError,
+} from './function_circuit_breaker';
+import { RetryPolicy, createRetryPolicy } from './retry_policy';
+import { ResponseCache, createResponseCache } from './response_cache';
 
 enum CredentialStatus {
   PENDING = 1,
@@ -39,32 +72,56 @@ export class PendingRequest extends EventEmitter {
   deferred: utils.Deferred<TriggerResponse>;
   timer: NodeJS.Timeout | undefined;
   requestId: string;
+  priority: number;
+  private _span: Span | null;
 
   constructor(
     inputStream: Readable | Buffer,
     public metadata: Metadata,
-    deadline: number
+    deadline: number,
+    priority: number = Priority.kNormal
   ) {
     super();
+    this._span = startSpan(TraceSpans.QUEUE, metadata.headers, {
+      attributes: {
+        [TraceAttributes.REQUEST_ID]: metadata.requestId,
+      },
+    });
     this.startEpoch = Date.now();
     this.available = true;
     this.input = inputStream;
     this.deferred = utils.createDeferred<TriggerResponse>();
     this.requestId = metadata.requestId;
+    this.priority = priority;
     this.timer = setTimeout(() => {
       this.available = false;
       this.emit('timeout');
     }, deadline - Date.now());
+    metadata.signal?.addEventListener('abort', this._onAbort);
   }
 
+  private _onAbort = () => {
+    this.available = false;
+    this.emit('abort');
+  };
+
   /**
-   * Stop pending timeout timer.
+   * Stop pending timeout timer, the request is no longer queueing.
    */
   stopTimer() {
     if (this.timer) {
       clearTimeout(this.timer);
       this.timer = undefined;
     }
+    this.metadata.signal?.removeEventListener('abort', this._onAbort);
+    this._endSpan();
+  }
+
+  private _endSpan(error?: Error) {
+    if (this._span) {
+      endSpan(this._span, error);
+      this._span = null;
+    }
   }
 
   /**
@@ -86,18 +143,34 @@ export class PendingRequest extends EventEmitter {
    * Reject the `promise`.
    */
   get reject(): (err: Error) => void {
-    this.stopTimer();
-    return this.deferred.reject;
+    return (err: Error) => {
+      // Failures after dispatching are traced by the worker.
+      this._endSpan(err);
+      this.stopTimer();
+      this.deferred.reject(err);
+    };
   }
 }
 
+const kResponseTimeEwmaAlpha = 0.3;
+const kDrainCheckInterval = 100;
+
 export class Worker extends EventEmitter {
   activeRequestCount: number;
   private logger: PrefixedLogger;
   trafficOff: boolean;
+  /**
+   * Exponentially weighted moving average of the response time in
+   * milliseconds, 0 if no request has finished yet.
+   */
+  responseTimeEwma = 0;
 
   freeWorkerListNode: ReadonlyNode<Worker> | null = null;
   debuggerTag: string | undefined;
+  /**
+   * Whether the worker has responded to any request.
+   */
+  warm = false;
 
   private _dispatcherData: unknown;
 
@@ -124,6 +197,16 @@ export class Worker extends EventEmitter {
     this._dispatcherData = val;
   }
 
+  private _recordResponseTime(duration: number) {
+    if (this.responseTimeEwma === 0) {
+      this.responseTimeEwma = duration;
+      return;
+    }
+    this.responseTimeEwma =
+      kResponseTimeEwmaAlpha * duration +
+      (1 - kResponseTimeEwmaAlpha) * this.responseTimeEwma;
+  }
+
   /**
    * Close this worker's traffic.
    */
@@ -175,6 +258,7 @@ export class Worker extends EventEmitter {
       await this.delegate.inspectorStart(this.credential);
     }
 
+    const startTime = Date.now();
     this.activeRequestCount++;
     this.logger.info(
       '[%s] Dispatching request, activeRequestCount: %s, wait: %sms.',
@@ -183,19 +267,34 @@ export class Worker extends EventEmitter {
       waitMs
     );
 
+    const span = startSpan(TraceSpans.WORKER_INVOKE, metadata?.headers ?? [], {
+      attributes: {
+        [TraceAttributes.WORKER_NAME]: this.name,
+        [TraceAttributes.REQUEST_ID]: requestId,
+        [TraceAttributes.QUEUEING]: waitMs,
+      },
+    });
+
     try {
       const ret = await this.delegate.trigger(
         this.credential,
         'invoke',
         inputStream,
-        metadata || { requestId }
+        metadata ? injectTraceContext(metadata, span) : { requestId }
       );
 
       ret.queueing = waitMs;
       ret.workerName = this.name;
+      // Queued requests dispatched before the worker's first response have
+      // waited for the worker to start.
+      ret.coldStart = waitMs > 0 && !this.warm;
+      this.warm = true;
+      span.setAttribute(TraceAttributes.COLD_START, ret.coldStart);
+      endSpanOnClose(span, ret);
 
       // do not await the response body finishing.
       ret.finish().finally(() => {
+        this._recordResponseTime(Date.now() - startTime);
         this.activeRequestCount--;
         if (this.activeRequestCount === 0) {
           this.emit('downToZero');
@@ -205,7 +304,9 @@ export class Worker extends EventEmitter {
       return ret;
     } catch (e: unknown) {
       extendErrorWithInvokeDetail(e as Error, this.name, waitMs);
+      endSpan(span, e);
 
+      this._recordResponseTime(Date.now() - startTime);
       this.activeRequestCount--;
       if (this.activeRequestCount === 0) {
         this.emit('downToZero');
@@ -250,15 +351,32 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
   private delegate: NoslatedDelegateService;
   private host: DataPlaneHost;
   private logger: PrefixedLogger;
-  requestQueue: List<PendingRequest>;
+  requestQueue: RequestQueue;
 
   private _dispatcher: Dispatcher;
 
   private _workerMap: Map<string, WorkerItem>;
-  private tokenBucket: TokenBucket | undefined = undefined;
+  private tokenBucket: TokenBucket | KeyedTokenBucket | undefined = undefined;
 
   public concurrencyStats: ConcurrencyStats;
 
+  /**
+   * Count of requests waiting for rate limit tokens.
+   */
+  rateLimitWaitingCount = 0;
+
+  circuitBreaker: FunctionCircuitBreaker | undefined;
+
+  retryPolicy: RetryPolicy | undefined;
+
+  responseCache: ResponseCache | undefined;
+
+  /**
+   * Whether the broker is draining, new invocations are rejected.
+   */
+  draining = false;
+  private _drainFuture: Promise<void> | undefined;
+
   /**
    * TODO(chengzhong.wcz): dependency review;
    */
@@ -277,22 +395,19 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
       'worker broker',
       `${this.name}${options.inspect ? ':inspect' : ''}`
     );
-    this.requestQueue = new List();
+    this.requestQueue = createRequestQueue(
+      this._profile.worker.requestPriority,
+      this._profile.worker.adaptiveLifoThreshold
+    );
 
     this._workerMap = new Map();
 
-    if (this.disposable) {
-      this._dispatcher = new DisposableDispatcher(this);
-    } else if (this._profile.worker.dispatchMode === 'round-robin') {
-      this._dispatcher = new RoundRobinDispatcher(this);
-    } else {
-      this._dispatcher = new LeastRequestCountDispatcher(this);
-    }
+    this._dispatcher = this._createDispatcher();
 
-    const rateLimit = this.rateLimit;
-    if (rateLimit) {
-      this.tokenBucket = new TokenBucket(this.rateLimit as TokenBucketConfig);
-    }
+    this.tokenBucket = this._createTokenBucket();
+    this.circuitBreaker = this._createCircuitBreaker();
+    this.retryPolicy = createRetryPolicy(this._profile.retry);
+    this.responseCache = createResponseCache(this._profile.responseCache);
 
     this.concurrencyStats = ConcurrencyStatsFactory.factory(
       this._profile.worker.concurrencyStatsMode
@@ -311,6 +426,17 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
     }
   }
 
+  /**
+   * Count of requests being processed by workers.
+   */
+  get activeRequestCount() {
+    let count = 0;
+    for (const worker of this.workers()) {
+      count += worker.activeRequestCount;
+    }
+    return count;
+  }
+
   /**
    * Get worker via only credential.
    */
@@ -386,11 +512,239 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
     });
   }
 
+  private _createDispatcher(): Dispatcher {
+    if (this.disposable) {
+      return new DisposableDispatcher(this);
+    }
+    const { dispatchMode, consistentHash } = this._profile.worker;
+    if (dispatchMode === 'round-robin') {
+      return new RoundRobinDispatcher(this);
+    }
+    if (dispatchMode === 'consistent-hash') {
+      return new ConsistentHashDispatcher(this, {
+        getKey: metadata => {
+          const key = this._profile.worker.consistentHash;
+          return key ? getRequestAttribute(metadata, key) : undefined;
+        },
+        virtualNodeCount: consistentHash?.virtualNodeCount,
+      });
+    }
+    if (dispatchMode === 'p2c-ewma') {
+      return new P2cEwmaDispatcher(this);
+    }
+    return new LeastRequestCountDispatcher(this);
+  }
+
   updateProfile(profile: RawWithDefaultsFunctionProfile) {
     if (profile.name !== this.name) {
       throw new Error('Update with mismatched worker profile');
     }
+    const previous = this._profile;
     this._profile = profile;
+
+    if (
+      previous.worker.disposable !== profile.worker.disposable ||
+      previous.worker.dispatchMode !== profile.worker.dispatchMode ||
+      (profile.worker.dispatchMode === 'consistent-hash' &&
+        previous.worker.consistentHash?.virtualNodeCount !==
+          profile.worker.consistentHash?.virtualNodeCount)
+    ) {
+      this._updateDispatcher();
+    }
+
+    if (
+      !_.isEqual(
+        previous.worker.requestPriority,
+        profile.worker.requestPriority
+      ) ||
+      previous.worker.adaptiveLifoThreshold !==
+        profile.worker.adaptiveLifoThreshold
+    ) {
+      this._updateRequestQueue();
+    }
+
+    if (!_.isEqual(previous.rateLimit, profile.rateLimit)) {
+      this._updateTokenBucket();
+    }
+
+    if (!_.isEqual(previous.circuitBreaker, profile.circuitBreaker)) {
+      this.logger.info(
+        'circuit breaker changed to %j.',
+        profile.circuitBreaker
+      );
+      this.circuitBreaker = this._createCircuitBreaker();
+    }
+
+    if (!_.isEqual(previous.retry, profile.retry)) {
+      this.logger.info('retry policy changed to %j.', profile.retry);
+      this.retryPolicy = createRetryPolicy(profile.retry);
+    }
+
+    if (!_.isEqual(previous.responseCache, profile.responseCache)) {
+      this.logger.info('response cache changed to %j.', profile.responseCache);
+      this.responseCache = createResponseCache(profile.responseCache);
+    }
+
+    if (
+      previous.worker.concurrencyStatsMode !==
+      profile.worker.concurrencyStatsMode
+    ) {
+      this.logger.info(
+        'concurrency stats mode changed to %s.',
+        profile.worker.concurrencyStatsMode
+      );
+      this.concurrencyStats = ConcurrencyStatsFactory.factory(
+        profile.worker.concurrencyStatsMode
+      );
+    }
+  }
+
+  /**
+   * Replace the dispatcher and migrate the workers that are still accepting
+   * traffic. Queued requests are kept in `requestQueue` and are consumed by
+   * the new dispatcher once the workers are registered to it, the previous
+   * dispatcher only reports completions of its requests in flight to the new
+   * one.
+   */
+  private _updateDispatcher() {
+    const previous = this._dispatcher;
+    const dispatcher = this._createDispatcher();
+    if (isSameDispatcher(previous, dispatcher)) {
+      return;
+    }
+    this.logger.info(
+      'dispatcher changed from %s to %s.',
+      previous.type,
+      dispatcher.type
+    );
+
+    const workers = Array.from(this.workers()).filter(it => !it.trafficOff);
+    for (const worker of workers) {
+      previous.unregisterWorker(worker);
+      worker.setDispatcherData(undefined);
+    }
+    previous.handOver(dispatcher);
+    this._dispatcher = dispatcher;
+    for (const worker of workers) {
+      dispatcher.registerWorker(worker);
+    }
+  }
+
+  /**
+   * Re-queue the pending requests with the new queueing discipline.
+   */
+  private _updateRequestQueue() {
+    const { requestPriority, adaptiveLifoThreshold } = this._profile.worker;
+    const previous = this.requestQueue;
+    this.requestQueue = createRequestQueue(
+      requestPriority,
+      adaptiveLifoThreshold
+    );
+    for (const request of previous.values()) {
+      if (requestPriority) {
+        request.priority = parseRequestPriority(
+          getRequestAttribute(request.metadata, requestPriority)
+        );
+      }
+      this.requestQueue.push(request);
+    }
+  }
+
+  private _updateTokenBucket() {
+    this.logger.info('rate limit changed to %j.', this.rateLimit);
+    this.tokenBucket?.close();
+    this.tokenBucket = this._createTokenBucket();
+    // Otherwise the token bucket is started in `_init`.
+    if (this.isReady) {
+      this.tokenBucket?.start();
+    }
+  }
+
+  private _createTokenBucket() {
+    const rateLimit = this.rateLimit;
+    if (rateLimit == null) {
+      return undefined;
+    }
+    if (rateLimit.keyBy) {
+      return new KeyedTokenBucket(rateLimit as KeyedTokenBucketConfig);
+    }
+    return new TokenBucket(rateLimit as TokenBucketConfig);
+  }
+
+  private _createCircuitBreaker() {
+    const config = this._profile.circuitBreaker;
+    if (config == null) {
+      return undefined;
+    }
+    return new FunctionCircuitBreaker(
+      `${this.name}${this.options.inspect ? ':inspect' : ''}`,
+      config
+    );
+  }
+
+  private _rateLimitKey(metadata: Metadata) {
+    // Requests without the attribute share the same bucket.
+    return getRequestAttribute(metadata, this.rateLimit!.keyBy!) ?? '';
+  }
+
+  private _countRateLimited() {
+    this.dataFlowController.rateLimitedRequestCounter.add(1, {
+      [PlaneMetricAttributes.FUNCTION_NAME]: this.name,
+    });
+  }
+
+  private _acquireToken(metadata: Metadata) {
+    if (this.tokenBucket == null) {
+      return true;
+    }
+    if (this.tokenBucket instanceof KeyedTokenBucket) {
+      return this.tokenBucket.acquire(this._rateLimitKey(metadata));
+    }
+    return this.tokenBucket.acquire();
+  }
+
+  /**
+   * Wait for a token until the request deadline.
+   */
+  private async _waitForToken(metadata: Metadata) {
+    const startEpoch = Date.now();
+    this.rateLimitWaitingCount++;
+    this.dataFlowController.queuedRequestCounter.add(1, {
+      [PlaneMetricAttributes.FUNCTION_NAME]: this.name,
+    });
+
+    try {
+      let tokenBucket;
+      do {
+        tokenBucket = this.tokenBucket;
+        if (tokenBucket == null) {
+          return true;
+        }
+        const acquired =
+          tokenBucket instanceof KeyedTokenBucket
+            ? await tokenBucket.acquireUntil(
+                this._rateLimitKey(metadata),
+                metadata.deadline
+              )
+            : await tokenBucket.acquireUntil(metadata.deadline);
+        if (acquired) {
+          return true;
+        }
+        // Retry with the new token bucket if the rate limit has been updated.
+      } while (
+        tokenBucket !== this.tokenBucket &&
+        Date.now() < metadata.deadline
+      );
+      return false;
+    } finally {
+      this.rateLimitWaitingCount--;
+      this.dataFlowController.queuedRequestDurationHistogram.record(
+        Date.now() - startEpoch,
+        {
+          [PlaneMetricAttributes.FUNCTION_NAME]: this.name,
+        }
+      );
+    }
   }
 
   get disposable() {
@@ -404,6 +758,13 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
     return this._profile.rateLimit;
   }
 
+  /**
+   * Payload size limits of this broker.
+   */
+  get limits() {
+    return this._profile.limits;
+  }
+
   private get profile() {
     return this._profile;
   }
@@ -488,6 +849,7 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
         activeRequestCount: item.worker?.activeRequestCount ?? 0,
       })),
       concurrency: this.concurrencyStats.getConcurrency(),
+      circuitBreaker: this.circuitBreaker?.toJSON(),
     };
   }
 
@@ -513,13 +875,27 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
   }
 
   /**
-   * Check if request queue is enabled.
+   * Check if request queue is enabled and not full.
    */
   checkRequestQueueing(metadata: Metadata) {
-    if (!this.profile.worker.disableRequestQueue) return;
+    if (this.draining) {
+      throw this._createDrainingError(metadata.requestId);
+    }
+
+    const { disableRequestQueue, maxQueueLength } = this.profile.worker;
+    if (disableRequestQueue) {
+      this.host.broadcastRequestQueueing(this, metadata.requestId);
+      throw new Error(`No available worker process for ${this.name} now.`);
+    }
 
-    this.host.broadcastRequestQueueing(this, metadata.requestId);
-    throw new Error(`No available worker process for ${this.name} now.`);
+    if (maxQueueLength && this.requestQueue.length >= maxQueueLength) {
+      throw new RpcError(
+        `Request queue of ${this.name} is full (max queue length: ${maxQueueLength}), request(${metadata.requestId}).`,
+        {
+          code: RpcStatus.RESOURCE_EXHAUSTED,
+        }
+      );
+    }
   }
 
   /**
@@ -530,8 +906,16 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
    */
   createPendingRequest(input: Readable | Buffer, metadata: Metadata) {
     this.logger.info('create pending request(%s).', metadata.requestId);
-    const request = new PendingRequest(input, metadata, metadata.deadline);
-    const node = this.requestQueue.push(request);
+    const requestPriority = this.profile.worker.requestPriority;
+    const priority = requestPriority
+      ? parseRequestPriority(getRequestAttribute(metadata, requestPriority))
+      : undefined;
+    const { maxQueueWaitMs } = this.profile.worker;
+    const deadline = maxQueueWaitMs
+      ? Math.min(metadata.deadline, Date.now() + maxQueueWaitMs)
+      : metadata.deadline;
+    const request = new PendingRequest(input, metadata, deadline, priority);
+    this.requestQueue.push(request);
     this.dataFlowController.queuedRequestCounter.add(1, {
       [PlaneMetricAttributes.FUNCTION_NAME]: this.name,
     });
@@ -539,10 +923,10 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
     // TODO(kaidi.zkd): 统一计时器定时批量处理超时
     request.once('timeout', () => {
       this.logger.debug('A request wait timeout.');
-      this.requestQueue.remove(node);
+      this.requestQueue.remove(request);
       request.reject(
         new RpcError(
-          `Waiting for worker has timed out at ${metadata.deadline}, request(${request.requestId}).`,
+          `Waiting for worker has timed out at ${deadline}, request(${request.requestId}).`,
           {
             code: RpcStatus.DEADLINE_EXCEEDED,
           }
@@ -556,6 +940,22 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
       );
     });
 
+    request.once('abort', () => {
+      this.logger.debug('A pending request aborted.');
+      this.requestQueue.remove(request);
+      request.reject(
+        new RpcError(`Request(${request.requestId}) aborted by caller.`, {
+          code: RpcStatus.CANCELLED,
+        })
+      );
+      this.dataFlowController.queuedRequestDurationHistogram.record(
+        Date.now() - request.startEpoch,
+        {
+          [PlaneMetricAttributes.FUNCTION_NAME]: this.name,
+        }
+      );
+    });
+
     // broadcast that there's no enough container
     this.host.broadcastRequestQueueing(this, request.requestId);
     return request;
@@ -576,12 +976,28 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
     )
       return;
 
+    this._rejectAllPendingRequests(
+      () =>
+        new RpcError(startWorkerFastFailRequest.message!, {
+          code: RpcStatus.UNAVAILABLE,
+        })
+    );
+  }
+
+  /**
+   * Reject all pending requests and reset the request queue.
+   * @return Count of rejected requests.
+   */
+  private _rejectAllPendingRequests(
+    createError: (request: PendingRequest) => Error
+  ) {
     const requestQueue = this.requestQueue;
-    this.requestQueue = new List();
-    const err = new Error(startWorkerFastFailRequest.message!);
+    this.requestQueue = createRequestQueue(
+      this.profile.worker.requestPriority,
+      this.profile.worker.adaptiveLifoThreshold
+    );
     for (const pendingRequest of requestQueue.values()) {
-      pendingRequest.stopTimer();
-      pendingRequest.reject(err);
+      pendingRequest.reject(createError(pendingRequest));
       this.dataFlowController.queuedRequestDurationHistogram.record(
         Date.now() - pendingRequest.startEpoch,
         {
@@ -589,6 +1005,80 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
         }
       );
     }
+    return requestQueue.length;
+  }
+
+  private _createDrainingError(requestId: string) {
+    return new RpcError(
+      `Function ${this.name} is shutting down, request(${requestId}).`,
+      {
+        code: RpcStatus.UNAVAILABLE,
+      }
+    );
+  }
+
+  /**
+   * Stop accepting new invocations, reject pending requests and wait for
+   * active requests to finish for at most `gracePeriod` milliseconds.
+   * Subsequent calls return the same promise.
+   */
+  drain(gracePeriod: number): Promise<void> {
+    if (this._drainFuture == null) {
+      this._drainFuture = this._drain(gracePeriod);
+    }
+    return this._drainFuture;
+  }
+
+  private async _drain(gracePeriod: number) {
+    this.draining = true;
+    const rejectedCount = this._rejectAllPendingRequests(request =>
+      this._createDrainingError(request.requestId)
+    );
+    this.logger.info(
+      'draining, %d pending requests rejected, %d active requests.',
+      rejectedCount,
+      this.activeRequestCount
+    );
+
+    const deadline = Date.now() + gracePeriod;
+    let lastActiveRequestCount = this.activeRequestCount;
+    while (lastActiveRequestCount > 0) {
+      if (!this.draining) {
+        this.logger.info('draining cancelled.');
+        return;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        this.logger.warn(
+          'drain grace period exceeded with %d active requests.',
+          lastActiveRequestCount
+        );
+        return;
+      }
+      await utils.sleep(Math.min(remaining, kDrainCheckInterval));
+      const activeRequestCount = this.activeRequestCount;
+      if (activeRequestCount !== lastActiveRequestCount) {
+        this.logger.info(
+          'draining, %d active requests remaining.',
+          activeRequestCount
+        );
+        lastActiveRequestCount = activeRequestCount;
+      }
+    }
+    this.logger.info('drained.');
+  }
+
+  /**
+   * Accept new invocations again, e.g. the function has been registered again
+   * before the broker is closed.
+   */
+  resume() {
+    if (!this.draining) {
+      return;
+    }
+    this.draining = false;
+    this._drainFuture = undefined;
+    this.logger.info('resumed.');
   }
 
   /**
@@ -598,20 +1088,118 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
     inputStream: Readable | Buffer,
     metadata: Metadata
   ): Promise<TriggerResponse> {
-    const id = this.concurrencyStats.requestStarted();
+    if (this.draining) {
+      throw this._createDrainingError(metadata.requestId);
+    }
     await this.ready();
-    const acquiredToken = this.tokenBucket?.acquire() ?? true;
+    const acquiredToken = this._acquireToken(metadata);
     if (!acquiredToken) {
-      throw new RpcError('rate limit exceeded', {
-        code: RpcStatus.RESOURCE_EXHAUSTED,
+      if (this.rateLimit?.mode !== 'queue') {
+        this._countRateLimited();
+        throw new RpcError('rate limit exceeded', {
+          code: RpcStatus.RESOURCE_EXHAUSTED,
+        });
+      }
+      if (!(await this._waitForToken(metadata))) {
+        this._countRateLimited();
+        throw new RpcError(
+          `Waiting for rate limit token has timed out at ${metadata.deadline}, request(${metadata.requestId}).`,
+          {
+            code: RpcStatus.DEADLINE_EXCEEDED,
+          }
+        );
+      }
+    }
+
+    const circuitBreaker = this.circuitBreaker;
+    const permit = circuitBreaker
+      ? circuitBreaker.tryAcquire()
+      : { probe: false };
+    if (permit == null) {
+      this.dataFlowController.circuitBreakerRejectedRequestCounter.add(1, {
+        [PlaneMetricAttributes.FUNCTION_NAME]: this.name,
+        [DataPlaneMetricAttributes.CIRCUIT_BREAKER]: 'function',
       });
+      throw new FunctionCircuitBreakerOpenedError(
+        'Function circuit breaker opened.',
+        {
+          code: RpcStatus.FAILED_PRECONDITION,
+        }
+      );
+    }
+
+    // Requests throttled by the rate limit or rejected by the circuit breaker
+    // are not counted as concurrent requests. The stats may be replaced by a
+    // profile update before the request finishes.
+    const concurrencyStats = this.concurrencyStats;
+    const id = concurrencyStats.requestStarted();
+
+    const startTime = Date.now();
+    const future = this._invokeWithRetry(inputStream, metadata);
+    if (circuitBreaker) {
+      future.then(
+        res => {
+          circuitBreaker.record(
+            permit.probe,
+            res.status >= 500,
+            Date.now() - startTime
+          );
+        },
+        () => {
+          circuitBreaker.record(permit.probe, true, Date.now() - startTime);
+        }
+      );
     }
 
-    return this._dispatcher.invoke(inputStream, metadata).finally(() => {
-      this.concurrencyStats.requestFinished(id);
+    return future.finally(() => {
+      concurrencyStats.requestFinished(id);
     });
   }
 
+  private async _invokeWithRetry(
+    inputStream: Readable | Buffer,
+    metadata: Metadata
+  ): Promise<TriggerResponse> {
+    // Workers that have failed the request are not retried.
+    const excludedWorkers = new Set<string>();
+    let future = this._dispatcher.invoke(inputStream, metadata);
+    for (let attempts = 1; ; attempts++) {
+      try {
+        return await future;
+      } catch (e) {
+        const retryPolicy = this.retryPolicy;
+        const workerName = (e as ErrorWithInvokeDetail).workerName;
+        if (
+          retryPolicy == null ||
+          workerName == null ||
+          !retryPolicy.shouldRetry(e, inputStream, metadata, attempts)
+        ) {
+          throw e;
+        }
+        excludedWorkers.add(workerName);
+        if (inputStream instanceof Readable) {
+          inputStream.unpipe();
+        }
+        const next = this._dispatcher.invokeExcluding(
+          inputStream,
+          metadata,
+          excludedWorkers
+        );
+        if (next == null) {
+          throw e;
+        }
+        this.logger.warn(
+          '[%s] invocation failed on worker(%s), retrying (attempt %d).',
+          metadata.requestId,
+          workerName,
+          attempts + 1,
+          e
+        );
+        future = next;
+      }
+    }
+  }
+
   /**
    * Init (override)
    */
@@ -622,8 +1210,26 @@ export class WorkerBroker extends Base implements DispatcherDelegate {
   /**
    * Close (override)
    */
-  _close() {
+  async _close() {
     this.tokenBucket?.close();
-    // TODO: close all pending & active requests.
+    // Reject pending requests if not drained yet.
+    await this.drain(0);
+  }
+}
+
+/**
+ * Whether the dispatchers are created with the same options, i.e. there is no
+ * need to replace one with the other.
+ */
+function isSameDispatcher(lhs: Dispatcher, rhs: Dispatcher) {
+  if (lhs.type !== rhs.type) {
+    return false;
+  }
+  if (
+    lhs instanceof ConsistentHashDispatcher &&
+    rhs instanceof ConsistentHashDispatcher
+  ) {
+    return lhs.virtualNodeCount === rhs.virtualNodeCount;
   }
+  return true;
 }
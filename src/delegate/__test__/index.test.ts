@@ -198,6 +198,71 @@ describe(common.testName(__filename), () => {
     }, /PEER_CONNECTION_CLOSED/);
   });
 
+  it('should abort request on caller aborted', async () => {
+    delegate = new NoslatedDelegateService();
+    delegate.register('foobar');
+    await delegate.start();
+
+    client = new TestClient(delegate.serverSockPath(), 'foobar');
+
+    await new Promise(resolve => {
+      client?.once('bind', resolve);
+      client?.connect();
+    });
+
+    const abortController = new AbortController();
+    const resp = await delegate.trigger('foobar', 'hang-body', null as any, {
+      timeout: 60_1000,
+      signal: abortController.signal,
+    });
+    const errorFuture = once(resp, 'error');
+    const streamPushFuture = once(client, 'streamPush');
+    abortController.abort();
+
+    const [err] = await errorFuture;
+    assert.throws(() => {
+      throw err;
+    }, /Request aborted/);
+    // The worker is notified with an error stream push.
+    const [[, isEos, , isError]] = await streamPushFuture;
+    assert.strictEqual(isEos, true);
+    assert.strictEqual(isError, true);
+  });
+
+  it('should not abort completed requests on deadline', async () => {
+    delegate = new NoslatedDelegateService();
+    delegate.register('foobar');
+    await delegate.start();
+
+    client = new TestClient(delegate.serverSockPath(), 'foobar');
+
+    await new Promise(resolve => {
+      client?.once('bind', resolve);
+      client?.connect();
+    });
+
+    const streamPushes: unknown[] = [];
+    client.on('streamPush', args => {
+      streamPushes.push(args);
+    });
+    const init = await delegate.trigger('foobar', 'init', null as any, {
+      timeout: 100,
+    });
+    assert.strictEqual(init.status, 200);
+    // The response is completed by the worker but never consumed.
+    const resp = await delegate.trigger('foobar', 'end-body', null as any, {
+      timeout: 100,
+    });
+    let error: Error | undefined;
+    resp.on('error', e => {
+      error = e;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    assert.strictEqual(error, undefined);
+    assert.deepStrictEqual(streamPushes, []);
+  });
+
   describe('setDaprAdaptor', () => {
     let delegate: NoslatedDelegateService;
     let oldMod: any;
@@ -55,12 +55,20 @@ function child() {
       callback
     ) => {
       process.send?.({ type: 'request', args: [method] });
-      if (method === 'hang-body') {
+      if (method === 'hang-body' || method === 'init') {
         return callback(CanonicalCode.OK, null, {
           status: 200,
           metadata: {},
         } as aworker.ipc.ITriggerResponseMessage);
       }
+      if (method === 'end-body') {
+        callback(CanonicalCode.OK, null, {
+          status: 200,
+          metadata: {},
+        } as aworker.ipc.ITriggerResponseMessage);
+        client.streamPush(streamId!, true, null, false);
+        return;
+      }
     };
 
     const onEvent =
@@ -8,7 +8,18 @@ import {
   flattenKeyValuePairs,
 } from './request_response';
 import { NoslatedStreamError } from './error';
-import { DelegateMetricAttributes } from '#self/lib/telemetry/semantic_conventions';
+import {
+  DelegateMetricAttributes,
+  TraceAttributes,
+  TraceSpans,
+} from '#self/lib/telemetry/semantic_conventions';
+import {
+  endSpan,
+  endSpanOnClose,
+  injectTraceHeaders,
+  startSpan,
+} from '#self/lib/telemetry/trace';
+import { SpanKind } from '@opentelemetry/api';
 import { Extension } from './extension';
 import { aworker } from '../proto/aworker';
 import {
@@ -77,6 +88,12 @@ export class InvokeController {
   #extension: Extension;
 
   #sessionId;
+
+  /**
+   * sid => cleanup of the cancellation watcher of the response.
+   */
+  #cancellationWatchers = new Map<number, () => void>();
+
   constructor(
     sharedState: DelegateSharedState,
     registration: CredentialRegistration,
@@ -127,6 +144,8 @@ export class InvokeController {
       return;
     }
     if (isEos) {
+      // The request is completed by the peer, there is nothing to abort.
+      this.#cancellationWatchers.get(sid)?.();
       readable.push(null);
       this.#state.removeReadable(sid);
       return;
@@ -473,10 +492,19 @@ export class InvokeController {
         metadata = metadataInit;
       }
     }
+    const span = startSpan(TraceSpans.DELEGATE_TRIGGER, metadata.headers, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        [DelegateMetricAttributes.TRIGGER_METHOD]: method,
+        [TraceAttributes.REQUEST_ID]: metadata.requestId,
+      },
+    });
     if (metadata) {
       metadataUrl = metadata.url ?? metadataUrl;
       metadataMethod = metadata.method ?? metadataMethod;
-      metadataHeaders = flattenKeyValuePairs(metadata.headers ?? []);
+      metadataHeaders = flattenKeyValuePairs(
+        injectTraceHeaders(metadata.headers ?? [], span)
+      );
       metadataBaggage = flattenKeyValuePairs(metadata.baggage ?? []);
       requestId = metadata.requestId;
     }
@@ -499,8 +527,10 @@ export class InvokeController {
       hasOutputData,
       metadata.deadline
     );
+    let inputWritable: Writable | undefined;
     if (hasInputData) {
       const writable = this.#makeWritable(ret.sid as number);
+      inputWritable = writable;
       if (data instanceof Readable) {
         data.on('error', e => {
           if (receivedMetadata) {
@@ -528,6 +558,12 @@ export class InvokeController {
       response.push(null);
     }
 
+    // Requests without output are settled with the response head, which is
+    // bounded by the deadline already.
+    if (hasOutputData && ret.sid != null) {
+      this.#watchCancellation(ret.sid, metadata, response, inputWritable);
+    }
+
     // Swallow the error if the response has not yet been hand over to the caller yet.
     const dumbError = () => {};
     response.on('error', dumbError);
@@ -538,6 +574,7 @@ export class InvokeController {
     } catch (e) {
       /** cleanup response readables, ignore any incoming data */
       response.destroy();
+      endSpan(span, e);
       throw e;
     }
     response.off('error', dumbError);
@@ -552,15 +589,72 @@ export class InvokeController {
 
     receivedMetadata = true;
     if (errorsBeforeMetadata) {
+      endSpan(span, errorsBeforeMetadata);
       throw errorsBeforeMetadata;
     }
     response.status = resHead.status;
     response.metadata = new Metadata(
       resHead.metadata as unknown as MetadataInit
     );
+    if (hasOutputData) {
+      endSpanOnClose(span, response);
+    } else {
+      endSpan(span);
+    }
     return response;
   }
 
+  /**
+   * Tell the worker to abort the request when the caller goes away or the
+   * deadline passes before the response is completed by the worker.
+   */
+  #watchCancellation(
+    sid: number,
+    metadata: Metadata,
+    response: TriggerResponse,
+    writable: Writable | undefined
+  ) {
+    const signal = metadata.signal;
+    const abort = (error: Error) => {
+      cleanup();
+      logger.debug('aborting request(%s): %s', metadata.requestId, error);
+      // Destroying the writable closes the stream with error.
+      if (writable && !writable.destroyed) {
+        writable.destroy(error);
+      } else {
+        this.#closeStream(sid, /* isError */ true);
+      }
+      response.destroy(error);
+    };
+    const onAbort = () => {
+      abort(new NoslatedStreamError('Request aborted.', 'CANCELLED'));
+    };
+    const timer = setTimeout(() => {
+      abort(
+        new NoslatedStreamError(
+          'Request deadline exceeded.',
+          'DEADLINE_EXCEEDED'
+        )
+      );
+    }, metadata.deadline - Date.now());
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      response.off('end', cleanup);
+      response.off('close', cleanup);
+      this.#cancellationWatchers.delete(sid);
+    };
+
+    this.#cancellationWatchers.set(sid, cleanup);
+    response.once('end', cleanup);
+    response.once('close', cleanup);
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+  }
+
   /**
    * Create a Readable from streamId
    * @param {number} sid -
@@ -129,6 +129,10 @@ const kRequestKindDataMap: { [key in RequestKind]?: [any, any] } = {
 export class NoslatedError extends Error {
   peerStack?: string;
   operation: string;
+  /**
+   * Name of the canonical code, e.g. `CONNECTION_RESET`.
+   */
+  codeName: string;
   constructor(
     public code: CanonicalCode,
     public kind: RequestKind,
@@ -139,6 +143,7 @@ export class NoslatedError extends Error {
     );
     this.name = 'NoslatedError';
     this.operation = RequestKind[kind];
+    this.codeName = CanonicalCode[code];
   }
 }
 
@@ -16,6 +16,8 @@ interface MetadataInit {
   deadline?: number;
   requestId?: string;
   debuggerTag?: string;
+  // aborted when the caller goes away
+  signal?: AbortSignal;
 }
 
 class Metadata {
@@ -26,6 +28,7 @@ class Metadata {
   #requestId;
   #debuggerTag;
   #deadline;
+  #signal;
 
   constructor(init: MetadataInit) {
     this.#url = init.url;
@@ -35,6 +38,7 @@ class Metadata {
     this.#requestId = init.requestId ?? kDefaultRequestId;
     this.#debuggerTag = init.debuggerTag;
     this.#deadline = init.deadline ?? Date.now() + (init.timeout ?? 10_000);
+    this.#signal = init.signal;
   }
 
   get url() {
@@ -65,6 +69,10 @@ class Metadata {
     return this.#deadline;
   }
 
+  get signal() {
+    return this.#signal;
+  }
+
   toJSON() {
     return {
       url: this.url,
@@ -92,6 +100,8 @@ class TriggerResponse extends Readable {
   // time for request wait to be invoked
   #queueing: number;
   #workerName: string;
+  // whether the request waited for the worker to start
+  #coldStart = false;
 
   constructor(init?: TriggerResponseInit) {
     super({
@@ -149,6 +159,14 @@ class TriggerResponse extends Readable {
     return this.#workerName;
   }
 
+  set coldStart(val: boolean) {
+    this.#coldStart = val;
+  }
+
+  get coldStart(): boolean {
+    return this.#coldStart;
+  }
+
   async finish(): Promise<boolean> {
     return this.#finishDeferred.promise;
   }
@@ -0,0 +1,74 @@
+import assert from 'assert';
+import * as common from '#self/test/common';
+import { CronExpression } from '../cron';
+
+describe(common.testName(__filename), () => {
+  function next(expression: string, after: Date) {
+    return new Date(CronExpression.parse(expression).next(after.getTime()));
+  }
+
+  it('should match minutes and hours', () => {
+    assert.deepStrictEqual(
+      next('*/15 * * * *', new Date(2023, 0, 1, 0, 0, 30)),
+      new Date(2023, 0, 1, 0, 15)
+    );
+    // strictly after the given time.
+    assert.deepStrictEqual(
+      next('*/15 * * * *', new Date(2023, 0, 1, 0, 15)),
+      new Date(2023, 0, 1, 0, 30)
+    );
+    assert.deepStrictEqual(
+      next('5,10 2-3 * * *', new Date(2023, 0, 1, 3, 10)),
+      new Date(2023, 0, 2, 2, 5)
+    );
+  });
+
+  it('should match days and months', () => {
+    // 2023-01-07 is saturday.
+    assert.deepStrictEqual(
+      next('0 3 * * 1-5', new Date(2023, 0, 7)),
+      new Date(2023, 0, 9, 3)
+    );
+    assert.deepStrictEqual(
+      next('0 0 * * 7', new Date(2023, 0, 2)),
+      new Date(2023, 0, 8)
+    );
+    assert.deepStrictEqual(
+      next('0 0 31 */2 *', new Date(2023, 0, 31, 12)),
+      new Date(2023, 2, 31)
+    );
+    // either day of month or day of week matches if both are restricted.
+    assert.deepStrictEqual(
+      next('0 0 13 * 5', new Date(2023, 0, 1)),
+      new Date(2023, 0, 6)
+    );
+  });
+
+  it('should support macros', () => {
+    assert.deepStrictEqual(
+      next('@monthly', new Date(2023, 0, 15)),
+      new Date(2023, 1, 1)
+    );
+    assert.deepStrictEqual(
+      next('@hourly', new Date(2023, 0, 1, 23, 30)),
+      new Date(2023, 0, 2)
+    );
+  });
+
+  it('should throw on invalid expressions', () => {
+    for (const expression of [
+      '* * *',
+      '60 * * * *',
+      '5-1 * * * *',
+      '*/0 * * * *',
+      'a * * * *',
+      '@every_second',
+    ]) {
+      assert.throws(() => CronExpression.parse(expression), TypeError);
+    }
+    assert.throws(
+      () => CronExpression.parse('0 0 30 2 *').next(Date.now()),
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import * as common from '#self/test/common';
+import assert from 'assert';
+import { IndexedMinHeap, ReadonlyHeapNode } from '../indexed_heap';
+
+function drain(heap: IndexedMinHeap<string>) {
+  const result: string[] = [];
+  let node;
+  while ((node = heap.peek())) {
+    result.push(node.value);
+    heap.remove(node);
+  }
+  return result;
+}
+
+describe(common.testName(__filename), () => {
+  it('should peek minimum key', () => {
+    const heap = new IndexedMinHeap<string>();
+    assert.strictEqual(heap.peek(), undefined);
+
+    heap.push('c', 3);
+    heap.push('a', 1);
+    heap.push('d', 4);
+    heap.push('b', 2);
+    assert.strictEqual(heap.length, 4);
+    assert.strictEqual(heap.peek()?.value, 'a');
+    assert.deepStrictEqual(Array.from(heap.values()).sort(), [
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+    assert.deepStrictEqual(drain(heap), ['a', 'b', 'c', 'd']);
+    assert.strictEqual(heap.length, 0);
+  });
+
+  it('should update keys', () => {
+    const heap = new IndexedMinHeap<string>();
+    const nodes = new Map<string, ReadonlyHeapNode<string>>();
+    for (const [idx, value] of ['a', 'b', 'c', 'd', 'e'].entries()) {
+      nodes.set(value, heap.push(value, idx));
+    }
+
+    heap.update(nodes.get('a')!, 10);
+    assert.strictEqual(heap.peek()?.value, 'b');
+    heap.update(nodes.get('e')!, -1);
+    assert.strictEqual(heap.peek()?.value, 'e');
+    heap.update(nodes.get('c')!, Infinity);
+    assert.strictEqual(nodes.get('c')!.key, Infinity);
+
+    assert.deepStrictEqual(drain(heap), ['e', 'b', 'd', 'a', 'c']);
+  });
+
+  it('should remove nodes in the middle', () => {
+    const heap = new IndexedMinHeap<string>();
+    const nodes = ['a', 'b', 'c', 'd', 'e', 'f'].map((it, idx) =>
+      heap.push(it, idx)
+    );
+
+    heap.remove(nodes[1]);
+    heap.remove(nodes[4]);
+    assert.strictEqual(heap.length, 4);
+    assert.deepStrictEqual(drain(heap), ['a', 'c', 'd', 'f']);
+  });
+
+  it('should ignore removed nodes', () => {
+    const heap = new IndexedMinHeap<string>();
+    const node = heap.push('a', 1);
+    heap.push('b', 2);
+
+    heap.remove(node);
+    heap.remove(node);
+    heap.update(node, 0);
+    assert.strictEqual(heap.length, 1);
+    assert.strictEqual(heap.peek()?.value, 'b');
+
+    // Nodes of other heaps.
+    const other = new IndexedMinHeap<string>();
+    const otherNode = other.push('c', 0);
+    heap.remove(otherNode);
+    heap.update(otherNode, -1);
+    assert.strictEqual(heap.length, 1);
+    assert.strictEqual(other.length, 1);
+  });
+});
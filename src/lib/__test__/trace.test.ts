@@ -0,0 +1,175 @@
+import assert from 'assert';
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import * as common from '#self/test/common';
+import { TestTracerProvider } from '#self/test/telemetry-util';
+import { Metadata, TriggerResponse } from '#self/delegate/request_response';
+import {
+  extractTraceContext,
+  formatTraceParent,
+  injectTraceContext,
+  injectTraceHeaders,
+  parseTraceParent,
+  startSpan,
+  traceInvocation,
+} from '#self/lib/telemetry/trace';
+import { TraceAttributes } from '#self/lib/telemetry/semantic_conventions';
+import { bufferFromStream } from '#self/lib/util';
+
+const kTraceId = '0af7651916cd43dd8448eb211c80319c';
+const kSpanId = 'b7ad6b7169203331';
+const kTraceParent = `00-${kTraceId}-${kSpanId}-01`;
+
+describe(common.testName(__filename), () => {
+  describe('parseTraceParent', () => {
+    it('should parse traceparent', () => {
+      assert.deepStrictEqual(parseTraceParent(kTraceParent), {
+        traceId: kTraceId,
+        spanId: kSpanId,
+        traceFlags: 1,
+        isRemote: true,
+      });
+      // Future versions may have more fields.
+      assert.strictEqual(
+        parseTraceParent(`01-${kTraceId}-${kSpanId}-00-foo`)?.traceFlags,
+        0
+      );
+    });
+
+    it('should reject invalid traceparent', () => {
+      for (const value of [
+        '',
+        'foo',
+        `00-${kTraceId}-${kSpanId}-01-foo`,
+        `ff-${kTraceId}-${kSpanId}-01`,
+        `00-${'0'.repeat(32)}-${kSpanId}-01`,
+        `00-${kTraceId}-${'0'.repeat(16)}-01`,
+        `00-${kTraceId.toUpperCase()}-${kSpanId}-01`,
+      ]) {
+        assert.strictEqual(parseTraceParent(value), undefined, value);
+      }
+    });
+
+    it('should format traceparent', () => {
+      assert.strictEqual(
+        formatTraceParent({
+          traceId: kTraceId,
+          spanId: kSpanId,
+          traceFlags: 1,
+        }),
+        kTraceParent
+      );
+    });
+  });
+
+  describe('propagation', () => {
+    it('should extract the remote span from headers', () => {
+      const ctx = extractTraceContext([['TraceParent', kTraceParent]]);
+      assert.strictEqual(trace.getSpanContext(ctx)?.spanId, kSpanId);
+      assert.strictEqual(
+        trace.getSpanContext(extractTraceContext([['foo', 'bar']])),
+        undefined
+      );
+    });
+
+    it('should continue the trace without tracer provider', () => {
+      const span = startSpan('foo', [['traceparent', kTraceParent]]);
+      assert.ok(!span.isRecording());
+      assert.deepStrictEqual(
+        injectTraceHeaders(
+          [
+            ['foo', 'bar'],
+            ['traceparent', kTraceParent],
+          ],
+          span
+        ),
+        [
+          ['foo', 'bar'],
+          ['traceparent', kTraceParent],
+        ]
+      );
+
+      const headers: [string, string][] = [['foo', 'bar']];
+      assert.strictEqual(
+        injectTraceHeaders(headers, startSpan('foo', [])),
+        headers
+      );
+    });
+
+    it('should inject the span into metadata', () => {
+      const provider = new TestTracerProvider();
+      trace.setGlobalTracerProvider(provider);
+      try {
+        const abortController = new AbortController();
+        const metadata = new Metadata({
+          headers: [['traceparent', kTraceParent]],
+          requestId: 'foo',
+          signal: abortController.signal,
+        });
+        const span = startSpan('foo', metadata.headers);
+        const injected = injectTraceContext(metadata, span);
+        assert.strictEqual(injected.requestId, 'foo');
+        assert.strictEqual(injected.deadline, metadata.deadline);
+        assert.strictEqual(injected.signal, abortController.signal);
+        assert.deepStrictEqual(injected.headers, [
+          ['traceparent', `00-${kTraceId}-${span.spanContext().spanId}-01`],
+        ]);
+        assert.strictEqual(provider.spans[0].parentSpanId, kSpanId);
+      } finally {
+        trace.disable();
+      }
+    });
+  });
+
+  describe('traceInvocation', () => {
+    let provider: TestTracerProvider;
+    beforeEach(() => {
+      provider = new TestTracerProvider();
+      trace.setGlobalTracerProvider(provider);
+    });
+    afterEach(() => {
+      trace.disable();
+    });
+
+    it('should end the span once the response has been consumed', async () => {
+      const span = startSpan('foo', []);
+      const response = new TriggerResponse({ read() {}, status: 200 });
+      await traceInvocation(span, Promise.resolve(response));
+      assert.ok(!provider.spans[0].ended);
+
+      response.push(Buffer.from('foo'));
+      response.push(null);
+      await bufferFromStream(response);
+      await response.finish();
+      assert.ok(provider.spans[0].ended);
+      assert.strictEqual(
+        provider.spans[0].attributes[TraceAttributes.STATUS_CODE],
+        200
+      );
+      assert.strictEqual(provider.spans[0].status.code, SpanStatusCode.UNSET);
+    });
+
+    it('should record aborted responses', async () => {
+      const span = startSpan('foo', []);
+      const response = new TriggerResponse({ read() {}, status: 200 });
+      await traceInvocation(span, Promise.resolve(response));
+      response.destroy();
+      await response.finish();
+      assert.ok(provider.spans[0].ended);
+      assert.strictEqual(provider.spans[0].status.code, SpanStatusCode.ERROR);
+    });
+
+    it('should record errors', async () => {
+      const span = startSpan('foo', []);
+      await assert.rejects(
+        traceInvocation(span, Promise.reject(new Error('foobar'))),
+        /foobar/
+      );
+      assert.ok(provider.spans[0].ended);
+      assert.deepStrictEqual(provider.spans[0].status, {
+        code: SpanStatusCode.ERROR,
+        message: 'foobar',
+      });
+      assert.strictEqual(provider.spans[0].exceptions.length, 1);
+    });
+  });
+});
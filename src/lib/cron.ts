@@ -0,0 +1,136 @@
+const kMacros: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const kFields = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both sunday.
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Give up if no matching time in the following years, e.g. `0 0 30 2 *`.
+const kMaxSearchYears = 5;
+
+/**
+ * Standard cron expression of 5 fields: minute, hour, day of month, month and
+ * day of week, evaluated in local time. Supports `*`, lists, ranges, steps and
+ * macros like `@hourly`.
+ */
+export class CronExpression {
+  static parse(expression: string) {
+    const normalized = kMacros[expression.trim()] ?? expression.trim();
+    const parts = normalized.split(/\s+/);
+    if (parts.length !== kFields.length) {
+      throw new TypeError(
+        `Invalid cron expression '${expression}', expecting 5 fields.`
+      );
+    }
+    const sets = parts.map((it, idx) => parseField(it, idx, expression));
+    // Convert sunday 7 to 0.
+    if (sets[4].delete(7)) {
+      sets[4].add(0);
+    }
+    return new CronExpression(
+      expression,
+      sets,
+      !parts[2].startsWith('*') && !parts[4].startsWith('*')
+    );
+  }
+
+  private constructor(
+    readonly source: string,
+    private sets: Set<number>[],
+    private restrictsBothDays: boolean
+  ) {}
+
+  /**
+   * The next matching time after the given timestamp, in milliseconds.
+   */
+  next(after: number): number {
+    const [minutes, hours, , months] = this.sets;
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = date.getFullYear() + kMaxSearchYears;
+    while (date.getFullYear() <= limit) {
+      if (!months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this._matchDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+        continue;
+      }
+      return date.getTime();
+    }
+    throw new RangeError(
+      `No matching time of cron expression '${this.source}'.`
+    );
+  }
+
+  /**
+   * As cron does, a day matches either field if both day of month and day of
+   * week are restricted.
+   */
+  private _matchDay(date: Date) {
+    const [, , daysOfMonth, , daysOfWeek] = this.sets;
+    const matchDayOfMonth = daysOfMonth.has(date.getDate());
+    const matchDayOfWeek = daysOfWeek.has(date.getDay());
+    if (this.restrictsBothDays) {
+      return matchDayOfMonth || matchDayOfWeek;
+    }
+    return matchDayOfMonth && matchDayOfWeek;
+  }
+}
+
+function parseField(field: string, idx: number, expression: string) {
+  const { name, min, max } = kFields[idx];
+  const invalid = () =>
+    new TypeError(
+      `Invalid ${name} field '${field}' of cron expression '${expression}'.`
+    );
+
+  const values = new Set<number>();
+  for (const item of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+    if (match == null) {
+      throw invalid();
+    }
+    const [, range, from, to, step] = match;
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      start = Number(from);
+      // `n/step` ranges from n to the max.
+      end = to != null ? Number(to) : step != null ? max : start;
+    }
+    const stepValue = step != null ? Number(step) : 1;
+    if (start < min || end > max || start > end || stepValue < 1) {
+      throw invalid();
+    }
+    for (let it = start; it <= end; it += stepValue) {
+      values.add(it);
+    }
+  }
+  return values;
+}
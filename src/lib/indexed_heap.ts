@@ -0,0 +1,121 @@
+export interface ReadonlyHeapNode<T> {
+  readonly value: T;
+  readonly key: number;
+}
+
+class HeapNode<T> implements ReadonlyHeapNode<T> {
+  constructor(
+    public value: T,
+    public key: number,
+    public _index: number,
+    public _heap: IndexedMinHeap<T> | undefined
+  ) {}
+}
+
+/**
+ * A binary min heap that keeps track of the position of each node, so that
+ * the key of a node can be updated, or a node can be removed, in O(log n).
+ */
+export class IndexedMinHeap<T> {
+  private _nodes: HeapNode<T>[] = [];
+
+  get length() {
+    return this._nodes.length;
+  }
+
+  /**
+   * The node with the minimum key.
+   */
+  peek(): ReadonlyHeapNode<T> | undefined {
+    return this._nodes[0];
+  }
+
+  push(value: T, key: number): ReadonlyHeapNode<T> {
+    const node = new HeapNode(value, key, this._nodes.length, this);
+    this._nodes.push(node);
+    this._siftUp(node._index);
+    return node;
+  }
+
+  /**
+   * Remove the node from the heap, no-op if it is not in the heap.
+   */
+  remove(readonlyNode: ReadonlyHeapNode<T>) {
+    const node = readonlyNode as HeapNode<T>;
+    if (node._heap !== this) {
+      return;
+    }
+    node._heap = undefined;
+    const last = this._nodes.pop()!;
+    if (last === node) {
+      return;
+    }
+    this._place(last, node._index);
+    this._siftUp(last._index);
+    this._siftDown(last._index);
+  }
+
+  /**
+   * Update the key of the node, no-op if it is not in the heap.
+   */
+  update(readonlyNode: ReadonlyHeapNode<T>, key: number) {
+    const node = readonlyNode as HeapNode<T>;
+    if (node._heap !== this || node.key === key) {
+      return;
+    }
+    const previous = node.key;
+    node.key = key;
+    if (key < previous) {
+      this._siftUp(node._index);
+    } else {
+      this._siftDown(node._index);
+    }
+  }
+
+  *values() {
+    for (const node of this._nodes) {
+      yield node.value;
+    }
+  }
+
+  private _place(node: HeapNode<T>, index: number) {
+    this._nodes[index] = node;
+    node._index = index;
+  }
+
+  private _siftUp(index: number) {
+    const node = this._nodes[index];
+    while (index > 0) {
+      const parentIndex = (index - 1) >>> 1;
+      const parent = this._nodes[parentIndex];
+      if (parent.key <= node.key) {
+        break;
+      }
+      this._place(parent, index);
+      index = parentIndex;
+    }
+    this._place(node, index);
+  }
+
+  private _siftDown(index: number) {
+    const length = this._nodes.length;
+    const node = this._nodes[index];
+    while (true) {
+      const left = index * 2 + 1;
+      if (left >= length) {
+        break;
+      }
+      const right = left + 1;
+      const child =
+        right < length && this._nodes[right].key < this._nodes[left].key
+          ? right
+          : left;
+      if (this._nodes[child].key >= node.key) {
+        break;
+      }
+      this._place(this._nodes[child], index);
+      index = child;
+    }
+    this._place(node, index);
+  }
+}
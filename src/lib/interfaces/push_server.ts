@@ -1,5 +1,6 @@
 import { ServerDuplexStream } from '@grpc/grpc-js';
 import * as root from '#self/proto/root';
+import { ServerUnaryCall } from '../rpc/util';
 
 export interface IPushServer {
   invoke(
@@ -15,4 +16,12 @@ export interface IPushServer {
       root.noslated.data.InvokeResponse
     >
   ): void;
+
+  invokeAsync(
+    call: ServerUnaryCall<root.noslated.data.IInvokeAsyncRequest>
+  ): Promise<root.noslated.data.IInvokeAsyncResponse>;
+
+  getAsyncJob(
+    call: ServerUnaryCall<root.noslated.data.IGetAsyncJobRequest>
+  ): Promise<root.noslated.data.IAsyncJob>;
 }
@@ -2,7 +2,96 @@ import { DeepRequired, DeepReadonly } from '../util';
 
 export type RuntimeType = 'nodejs' | 'aworker';
 export type ShrinkStrategy = 'FILO' | 'FIFO' | 'LCC';
-export type DispatchMode = 'least-request-count' | 'round-robin';
+export type DispatchMode =
+  | 'least-request-count'
+  | 'round-robin'
+  | 'consistent-hash'
+  | 'p2c-ewma';
+export type RateLimitMode = 'reject' | 'queue';
+
+/**
+ * Selects a request attribute by header name or baggage key.
+ */
+export interface RequestAttributeKey {
+  header?: string;
+  baggage?: string;
+}
+
+export interface RequestPriorityProfile extends RequestAttributeKey {
+  // 排队请求每等待该时长（ms）优先级提升 1，默认 1000
+  agingInterval?: number;
+}
+
+export interface ConsistentHashProfile extends RequestAttributeKey {
+  // 每个 worker 在哈希环上的虚拟节点数，默认 160
+  virtualNodeCount?: number;
+}
+
+export interface FunctionCircuitBreakerProfile {
+  // 错误率阈值 (0, 1]，默认 0.5
+  errorRatio?: number;
+  // p99 延迟阈值，单位 ms，默认不启用
+  p99Latency?: number;
+  // 触发熔断判断的最小采样数，默认 20
+  minSampleCount?: number;
+  // 滑动窗口采样数，默认 100
+  slidingWindowSize?: number;
+  // 熔断打开持续时间，单位 ms，默认 30s
+  openDuration?: number;
+  // 半开状态探测请求数，默认 5
+  halfOpenProbeCount?: number;
+}
+
+export interface FunctionRetryProfile {
+  // 包含首次调用在内的最大尝试次数，默认 2
+  maxAttempts?: number;
+  // 可重试的错误码，默认 ['PEER_CONNECTION_CLOSED', 'CONNECTION_RESET']
+  errorCodes?: string[];
+  // 可重试的请求方法，默认为幂等方法 GET、HEAD、OPTIONS、PUT、DELETE
+  methods?: string[];
+}
+
+export interface FunctionResponseCacheProfile {
+  // 缓存占用内存上限，单位 bytes，默认 16MB
+  maxBytes?: number;
+  // 可缓存的单个响应 body 大小上限，单位 bytes，默认 1MB
+  maxEntryBytes?: number;
+}
+
+export interface FunctionLimitsProfile {
+  // 请求 body 大小上限，单位 bytes，默认不限制
+  maxRequestBytes?: number;
+  // 响应 body 大小上限，单位 bytes，默认不限制
+  maxResponseBytes?: number;
+}
+
+export interface FunctionAsyncInvokeProfile {
+  // 包含首次调用在内的最大尝试次数，默认 3
+  maxAttempts?: number;
+  // 首次重试前的等待时间，单位毫秒，之后每次翻倍，默认 1000
+  backoff?: number;
+  // 重试等待时间上限，单位毫秒，默认 60000
+  maxBackoff?: number;
+}
+
+export interface FunctionCronTrigger {
+  type: 'cron';
+  // cron 表达式：分 时 日 月 周，按本地时区计算，支持 @hourly 等别名
+  schedule: string;
+  // 请求 body，默认为空
+  payload?: string;
+  // 请求头
+  headers?: {
+    key: string;
+    value: string;
+  }[];
+  // 上次调用未结束时跳过本次调用，默认 false
+  skipOverlapping?: boolean;
+  // 调用超时时间，单位 ms，默认 10000
+  timeout?: number;
+}
+
+export type FunctionTrigger = FunctionCronTrigger;
 
 /**
  * Options needed to start a process
@@ -51,6 +140,23 @@ export interface ProcessFunctionProfile {
     precisionZeroThreshold?: number;
     // worker 并发度统计算法
     concurrencyStatsMode?: ConcurrencyStatsMode;
+    /**
+     * Prioritize queued requests by the request attribute, requests are
+     * queued first-in-first-out if not set.
+     */
+    requestPriority?: RequestPriorityProfile;
+    /**
+     * The request attribute to be hashed when `dispatchMode` is
+     * `consistent-hash`.
+     */
+    consistentHash?: ConsistentHashProfile;
+    // 排队请求数上限，超出后新请求立即被拒绝，默认不限制
+    maxQueueLength?: number;
+    // 请求最长排队时间，单位 ms，默认不限制（以请求 deadline 为准）
+    maxQueueWaitMs?: number;
+    // 最早排队请求等待超过该时长（ms）后改为后进先出，默认不启用
+    // 设置 requestPriority 时不生效
+    adaptiveLifoThreshold?: number;
   };
   environments?: {
     key: string;
@@ -61,8 +167,50 @@ export interface ProcessFunctionProfile {
     maxTokenCount?: number;
     tokensPerFill?: number;
     fillInterval?: number;
+    /**
+     * Maintain a token bucket per value of the request attribute instead of
+     * one for the whole function.
+     */
+    keyBy?: RequestAttributeKey;
+    /**
+     * Max count of keyed token buckets, least recently used buckets are
+     * evicted when exceeded. Only applicable if `keyBy` is set.
+     */
+    maxKeyCount?: number;
+    /**
+     * + reject: 无可用 token 时立即拒绝请求，默认
+     * + queue: 等待 token 补充直至请求 deadline
+     */
+    mode?: RateLimitMode;
   };
   namespace?: string;
+  /**
+   * Per-function circuit breaker, disabled if not set.
+   */
+  circuitBreaker?: FunctionCircuitBreakerProfile;
+  /**
+   * Retry failed invocations on another worker, disabled if not set.
+   */
+  retry?: FunctionRetryProfile;
+  /**
+   * Cache responses of GET and HEAD requests by `cache-control` and `etag`
+   * response headers, disabled if not set.
+   */
+  responseCache?: FunctionResponseCacheProfile;
+  /**
+   * Payload size limits, requests exceeding the limit are rejected with
+   * `RESOURCE_EXHAUSTED` and responses exceeding the limit are aborted.
+   */
+  limits?: FunctionLimitsProfile;
+  /**
+   * Retry policy of asynchronous invocations, failed jobs are moved to the
+   * dead-letter directory once attempts are exhausted.
+   */
+  asyncInvoke?: FunctionAsyncInvokeProfile;
+  /**
+   * Invoke the function on schedules.
+   */
+  triggers?: FunctionTrigger[];
 }
 
 interface BaseFunctionProfile {
@@ -88,7 +236,16 @@ export interface AworkerFunctionProfile
 
 export type RawFunctionProfile = NodejsFunctionProfile | AworkerFunctionProfile;
 
-export const optionalKeys = ['rateLimit', 'namespace'] as const;
+export const optionalKeys = [
+  'rateLimit',
+  'namespace',
+  'circuitBreaker',
+  'retry',
+  'responseCache',
+  'limits',
+  'asyncInvoke',
+  'triggers',
+] as const;
 type OptionalKeys = (typeof optionalKeys)[number];
 export type RawWithDefaultsFunctionProfile = DeepRequired<
   Omit<RawFunctionProfile, OptionalKeys>
@@ -1,7 +1,12 @@
-import { metrics } from '@opentelemetry/api';
+import { metrics, trace } from '@opentelemetry/api';
 const version = require('#self/package.json').version;
 
 export function getMeter() {
   const meter = metrics.getMeter('noslated', version);
   return meter;
 }
+
+export function getTracer() {
+  const tracer = trace.getTracer('noslated', version);
+  return tracer;
+}
@@ -13,6 +13,19 @@ const DataPlaneMetrics = {
 
   QUEUED_REQUEST_COUNT: 'noslate.data.queued_request_count',
   QUEUED_REQUEST_DURATION: 'noslate.data.queued_request_duration',
+
+  RESPONSE_CACHE_HIT_COUNT: 'noslate.data.response_cache_hit_count',
+  RESPONSE_CACHE_MISS_COUNT: 'noslate.data.response_cache_miss_count',
+
+  RATE_LIMITED_REQUEST_COUNT: 'noslate.data.rate_limited_request_count',
+  CIRCUIT_BREAKER_REJECTED_REQUEST_COUNT:
+    'noslate.data.circuit_breaker_rejected_request_count',
+
+  QUEUE_LENGTH: 'noslate.data.queue_length',
+  ACTIVE_REQUEST_COUNT: 'noslate.data.active_request_count',
+  WORKER_COUNT: 'noslate.data.worker_count',
+  // 0 if the system circuit breaker is closed, 1 if half-open, 2 if opened.
+  SYSTEM_CIRCUIT_BREAKER_STATE: 'noslate.data.system_circuit_breaker_state',
 };
 
 const PlaneMetricAttributes = {
@@ -21,7 +34,13 @@ const PlaneMetricAttributes = {
 };
 
 const DataPlaneMetricAttributes = {
-  // TODO(chengzhong.wcz): invoke status code, etc.
+  MIRROR: 'noslate.data.mirror',
+  // Status code of the response, absent if the invocation failed.
+  STATUS_CODE: 'noslate.data.status_code',
+  // Name of the RpcStatus or the error if the invocation failed.
+  ERROR_CLASS: 'noslate.data.error_class',
+  // 'system' or 'function'.
+  CIRCUIT_BREAKER: 'noslate.data.circuit_breaker',
 };
 
 const ControlPlaneMetrics = {
@@ -50,6 +69,24 @@ const WorkerMetricsAttributes = {
   WORKER_PID: 'noslate.worker.pid',
 };
 
+const TraceSpans = {
+  CLIENT_INVOKE: 'noslate.client.invoke',
+  PUSH_SERVER_INVOKE: 'noslate.push_server.invoke',
+  DATA_PLANE_INVOKE: 'noslate.data.invoke',
+  QUEUE: 'noslate.data.queue',
+  WORKER_INVOKE: 'noslate.data.worker_invoke',
+  DELEGATE_TRIGGER: 'noslate.delegate.trigger',
+};
+
+const TraceAttributes = {
+  INVOKE_TYPE: 'noslate.invoke_type',
+  REQUEST_ID: 'noslate.request_id',
+  WORKER_NAME: 'noslate.worker_name',
+  QUEUEING: 'noslate.queueing',
+  COLD_START: 'noslate.cold_start',
+  STATUS_CODE: 'noslate.status_code',
+};
+
 export {
   DelegateMetrics,
   DelegateMetricAttributes,
@@ -60,4 +97,6 @@ export {
   ControlPlaneMetricAttributes,
   WorkerMetrics,
   WorkerMetricsAttributes,
+  TraceSpans,
+  TraceAttributes,
 };
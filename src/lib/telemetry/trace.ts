@@ -0,0 +1,170 @@
+import { Readable } from 'stream';
+import {
+  context,
+  Context,
+  isSpanContextValid,
+  Span,
+  SpanContext,
+  SpanOptions,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { Metadata } from '#self/delegate/request_response';
+import { castError } from '#self/lib/util';
+import { getTracer } from './otel';
+import { TraceAttributes } from './semantic_conventions';
+
+export const kTraceParentHeader = 'traceparent';
+export const kTraceStateHeader = 'tracestate';
+
+const kTraceParentPattern =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+interface TracedResponse extends Readable {
+  status: number;
+}
+
+/**
+ * Parse the W3C `traceparent` header.
+ * @see https://www.w3.org/TR/trace-context/#traceparent-header
+ */
+export function parseTraceParent(value: string): SpanContext | undefined {
+  const match = kTraceParentPattern.exec(value.trim());
+  if (match == null) {
+    return;
+  }
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is invalid, and version 00 has no trailing fields.
+  if (version === 'ff' || (version === '00' && rest != null)) {
+    return;
+  }
+  const spanContext: SpanContext = {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+    isRemote: true,
+  };
+  return isSpanContextValid(spanContext) ? spanContext : undefined;
+}
+
+export function formatTraceParent(spanContext: SpanContext) {
+  const flags = (spanContext.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`;
+}
+
+/**
+ * The context of the remote span in the trace headers, or the active context
+ * if there is none.
+ */
+export function extractTraceContext(headers: [string, string][]): Context {
+  const pair = headers.find(it => it[0].toLowerCase() === kTraceParentHeader);
+  const spanContext = pair && parseTraceParent(pair[1]);
+  if (spanContext == null) {
+    return context.active();
+  }
+  return trace.setSpanContext(context.active(), spanContext);
+}
+
+/**
+ * Replace the trace headers so that the downstream continues the trace as a
+ * child of the span. Headers are returned as is if the span is invalid, e.g.
+ * no tracer provider has been registered and there is no parent.
+ */
+export function injectTraceHeaders(
+  headers: [string, string][],
+  span: Span
+): [string, string][] {
+  const spanContext = span.spanContext();
+  if (!isSpanContextValid(spanContext)) {
+    return headers;
+  }
+  const result = headers.filter(
+    it => it[0].toLowerCase() !== kTraceParentHeader
+  );
+  result.push([kTraceParentHeader, formatTraceParent(spanContext)]);
+  const traceState = spanContext.traceState?.serialize();
+  if (traceState) {
+    return [
+      ...result.filter(it => it[0].toLowerCase() !== kTraceStateHeader),
+      [kTraceStateHeader, traceState],
+    ];
+  }
+  return result;
+}
+
+/**
+ * Metadata of which the trace headers are replaced with the span's.
+ */
+export function injectTraceContext(metadata: Metadata, span: Span) {
+  const headers = injectTraceHeaders(metadata.headers, span);
+  if (headers === metadata.headers) {
+    return metadata;
+  }
+  return new Metadata({
+    ...metadata.toJSON(),
+    headers,
+    signal: metadata.signal,
+  });
+}
+
+/**
+ * Start a span as the child of the remote span in the trace headers.
+ */
+export function startSpan(
+  name: string,
+  headers: [string, string][],
+  options?: SpanOptions
+) {
+  return getTracer().startSpan(name, options, extractTraceContext(headers));
+}
+
+export function endSpan(span: Span, error?: unknown) {
+  if (error != null) {
+    const err = castError(error);
+    span.recordException({
+      name: err.name,
+      message: err.message,
+      stack: err.stack,
+    });
+    span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+  }
+  span.end();
+}
+
+/**
+ * End the span once the response has been consumed. Responses closed before
+ * the end are considered failed.
+ */
+export function endSpanOnClose(span: Span, response: TracedResponse) {
+  span.setAttribute(TraceAttributes.STATUS_CODE, response.status);
+  if (response.status >= 500) {
+    span.setStatus({ code: SpanStatusCode.ERROR });
+  }
+  response.once('close', () => {
+    if (!response.readableEnded) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: 'Response aborted.',
+      });
+    }
+    span.end();
+  });
+}
+
+/**
+ * Trace the invocation until its response has been consumed.
+ */
+export async function traceInvocation<T extends TracedResponse>(
+  span: Span,
+  future: Promise<T>
+): Promise<T> {
+  let response: T;
+  try {
+    response = await future;
+  } catch (e) {
+    endSpan(span, e);
+    throw e;
+  }
+  endSpanOnClose(span, response);
+  return response;
+}
@@ -226,6 +226,44 @@ describe(testName(__filename), () => {
     });
   });
 
+  describe('.invokeAsync()', () => {
+    it('should invoke asynchronously and get the result', async () => {
+      await env.agent.setFunctionProfile([
+        {
+          name: 'aworker_echo',
+          runtime: 'aworker',
+          url: `file://${baselineDir}/aworker_echo`,
+          sourceFile: 'index.js',
+          signature: 'md5:234234',
+        },
+      ]);
+
+      const jobId = await env.agent.invokeAsync(
+        'aworker_echo',
+        Buffer.from('foobar'),
+        {
+          method: 'POST',
+        }
+      );
+      assert.ok(jobId);
+
+      let job = await env.agent.getAsyncJob(jobId);
+      while (job.status !== 'succeeded') {
+        assert.notStrictEqual(job.status, 'dead_letter');
+        await sleep(100);
+        job = await env.agent.getAsyncJob(jobId);
+      }
+      assert.strictEqual(job.name, 'aworker_echo');
+      assert.strictEqual(job.attempts, 1);
+      assert.strictEqual(job.result?.status, 200);
+      assert.strictEqual(Buffer.from(job.result!.body!).toString(), 'foobar');
+    });
+
+    it('should throw if job not found', async () => {
+      await assert.rejects(env.agent.getAsyncJob('foobar'), /not found/);
+    });
+  });
+
   describe('.getWorkerStatsSnapshot()', () => {
     it('should getWorkerStatsSnapshot work', async () => {
       let result = await env.agent.getWorkerStatsSnapshot();
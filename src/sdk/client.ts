@@ -13,7 +13,12 @@ import {
   MetadataInit,
   Metadata,
 } from '#self/delegate/request_response';
-import { createDeferred, DeepRequired, jsonClone } from '#self/lib/util';
+import {
+  bufferFromStream,
+  createDeferred,
+  DeepRequired,
+  jsonClone,
+} from '#self/lib/util';
 import { DataPlaneClientManager } from './data_plane_client_manager';
 import { ControlPlaneClientManager } from './control_plane_client_manager';
 // json could not be loaded with #self.
@@ -26,6 +31,17 @@ import * as root from '#self/proto/root';
 import { kDefaultRequestId } from '#self/lib/constants';
 import { ClientDuplexStream } from '@grpc/grpc-js';
 import { isUint8Array } from 'util/types';
+import { SpanKind } from '@opentelemetry/api';
+import {
+  injectTraceHeaders,
+  startSpan,
+  traceInvocation,
+} from '#self/lib/telemetry/trace';
+import {
+  PlaneMetricAttributes,
+  TraceAttributes,
+  TraceSpans,
+} from '#self/lib/telemetry/semantic_conventions';
 
 /**
  * Noslated client
@@ -115,6 +131,53 @@ export class NoslatedClient extends EventEmitter {
     return this.#invoke('invokeService', name, data, metadata);
   }
 
+  /**
+   * Invoke function asynchronously, the request is persisted by the data plane
+   * and retried on failure.
+   * @return The job id.
+   */
+  async invokeAsync(
+    name: string,
+    data: Readable | Buffer,
+    metadata?: MetadataInit
+  ) {
+    return this.#invokeAsync('invoke', name, data, metadata);
+  }
+
+  /**
+   * Invoke service asynchronously.
+   * @return The job id.
+   */
+  async invokeServiceAsync(
+    name: string,
+    data: Readable | Buffer,
+    metadata?: MetadataInit
+  ) {
+    return this.#invokeAsync('invokeService', name, data, metadata);
+  }
+
+  /**
+   * Get status and result of the asynchronous invocation.
+   */
+  async getAsyncJob(jobId: string): Promise<root.noslated.data.IAsyncJob> {
+    // The job is only known by the data plane it was submitted to.
+    const results: PromiseSettledResult<root.noslated.data.IAsyncJob>[] =
+      await this.dataPlaneClientManager.callToAllAvailableClients(
+        'getAsyncJob',
+        [{ jobId }],
+        'allSettled'
+      );
+    if (results.length === 0) {
+      throw new Error('No activated data plane.');
+    }
+    const fulfilled = results.find(it => it.status === 'fulfilled');
+    if (fulfilled) {
+      return (fulfilled as PromiseFulfilledResult<root.noslated.data.IAsyncJob>)
+        .value;
+    }
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
   /**
    * Set platform environment variables.
    */
@@ -273,6 +336,30 @@ export class NoslatedClient extends EventEmitter {
             };
           });
         }
+        if (it.stickyKey) {
+          item.stickyKey = it.stickyKey;
+        }
+        if (it.rules) {
+          item.rules = it.rules.map(it => {
+            return {
+              pathPrefix: it.match.pathPrefix,
+              method: it.match.method,
+              headers: mapToPairs(it.match.headers ?? {}),
+              baggage: mapToPairs(it.match.baggage ?? {}),
+              selector: mapToPairs(
+                it.selector as Record<'functionName', string>
+              ),
+            };
+          });
+        }
+        if (it.mirror) {
+          item.mirror = {
+            percentage: it.mirror.percentage,
+            selector: mapToPairs(
+              it.mirror.selector as Record<'functionName', string>
+            ),
+          };
+        }
         return item;
       }
     );
@@ -323,6 +410,18 @@ export class NoslatedClient extends EventEmitter {
       throw new Error('No activated data plane.');
     }
 
+    const requestId = metadata?.requestId ?? kDefaultRequestId;
+    const span = startSpan(TraceSpans.CLIENT_INVOKE, metadata?.headers ?? [], {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        [TraceAttributes.INVOKE_TYPE]: type,
+        [type === 'invoke'
+          ? PlaneMetricAttributes.FUNCTION_NAME
+          : PlaneMetricAttributes.SERVICE_NAME]: name,
+        [TraceAttributes.REQUEST_ID]: requestId,
+      },
+    });
+
     const call: ClientDuplexStream<
       root.noslated.data.IInvokeRequest,
       root.noslated.data.InvokeResponse
@@ -336,11 +435,11 @@ export class NoslatedClient extends EventEmitter {
       name,
       url: metadata?.url,
       method: metadata?.method,
-      headers: tuplesToPairs(metadata?.headers ?? []),
+      headers: tuplesToPairs(injectTraceHeaders(metadata?.headers ?? [], span)),
       baggage: tuplesToPairs(metadata?.baggage ?? []),
       deadline:
         metadata?.deadline ?? Date.now() + (metadata?.timeout ?? 10_000),
-      requestId: metadata?.requestId ?? kDefaultRequestId,
+      requestId,
       debuggerTag: metadata?.debuggerTag,
     };
     // Fast path for buffer request.
@@ -365,10 +464,42 @@ export class NoslatedClient extends EventEmitter {
       call.end();
     }
 
-    const res = await this._parseClientDuplexStream(call);
+    const res = await traceInvocation(
+      span,
+      this._parseClientDuplexStream(call)
+    );
     return res;
   }
 
+  async #invokeAsync(
+    type: InvokeType,
+    name: string,
+    data: Readable | Buffer,
+    metadata?: MetadataInit
+  ): Promise<string> {
+    const plane = this.dataPlaneClientManager.sample();
+    if (plane == null) {
+      throw new Error('No activated data plane.');
+    }
+
+    const body = data instanceof Readable ? await bufferFromStream(data) : data;
+    const { jobId } = await (plane as any).invokeAsync({
+      type,
+      request: {
+        name,
+        url: metadata?.url,
+        method: metadata?.method,
+        headers: tuplesToPairs(metadata?.headers ?? []),
+        baggage: tuplesToPairs(metadata?.baggage ?? []),
+        deadline:
+          metadata?.deadline ?? Date.now() + (metadata?.timeout ?? 10_000),
+        requestId: metadata?.requestId ?? kDefaultRequestId,
+        body,
+      },
+    });
+    return jobId;
+  }
+
   private _parseClientDuplexStream(
     call: ClientDuplexStream<
       root.noslated.data.InvokeRequest,
@@ -24,7 +24,12 @@ export class DataPlaneClientManager extends BasePlaneClientManager {
    * @return {DataPlaneClient} The created data plane client.
    */
   _createPlaneClient(planeId: number) {
-    return new DataPlaneClient(planeId, this.config);
+    const client = new DataPlaneClient(planeId, this.config);
+    // Subscriptions are restored by the client on reconnection.
+    client.subscribe('systemCircuitBreakerStatus', status => {
+      this.sdk.emit('dataPlaneCircuitBreakerStatusChanged', client, status);
+    });
+    return client;
   }
 
   /**
@@ -17,6 +17,7 @@ const processExit = process.exit.bind(process);
 export class NoslatedNodeWorker {
   #client;
   #readableMap = new Map();
+  #abortControllerMap = new Map<number, AbortController>();
   #onInit;
   #baseRequest;
   #logger;
@@ -77,12 +78,20 @@ export class NoslatedNodeWorker {
         });
       }
       const ctx = this.#makeContext();
-      const req = new IncomingMessage(metadata as unknown as MetadataInit);
+      const abortController = new AbortController();
+      const req = new IncomingMessage(
+        metadata as unknown as MetadataInit,
+        abortController.signal
+      );
       const res = new ServerResponse(
         this,
         hasOutputData ? sid : null,
         callback
       );
+      this.#abortControllerMap.set(sid, abortController);
+      res.once('close', () => {
+        this.#abortControllerMap.delete(sid);
+      });
       if (hasInputData) {
         this.#readableMap.set(sid, req);
       } else {
@@ -112,6 +121,10 @@ export class NoslatedNodeWorker {
       isEos,
       isError
     );
+    if (isError) {
+      // The caller went away or the deadline passed.
+      this.#abortControllerMap.get(streamId)?.abort();
+    }
     const readable = this.#readableMap.get(streamId);
     if (readable == null) {
       return;
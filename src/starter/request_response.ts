@@ -21,10 +21,15 @@ export class IncomingMessage extends Readable {
   #method;
   #headers;
   #baggage;
-  constructor(metadataInit: MetadataInit) {
+  #signal;
+  constructor(
+    metadataInit: MetadataInit,
+    signal: AbortSignal = new AbortController().signal
+  ) {
     super({
       read() {},
     });
+    this.#signal = signal;
     this.#url = metadataInit.url;
     this.#method = metadataInit.method;
     this.#headers = metadataInit.headers.map(it => [it.key, it.value]);
@@ -50,6 +55,14 @@ export class IncomingMessage extends Readable {
   get url() {
     return this.#url;
   }
+
+  /**
+   * Aborted when the caller goes away or the deadline of the request passes,
+   * handlers may stop early on abort.
+   */
+  get signal() {
+    return this.#signal;
+  }
 }
 
 export class ServerResponse extends Writable {
@@ -4,7 +4,23 @@ import {
   DataPoint,
   MetricReader,
 } from '@opentelemetry/sdk-metrics';
-import { MetricAttributes } from '@opentelemetry/api';
+import {
+  Context,
+  Exception,
+  MetricAttributes,
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanContext,
+  SpanKind,
+  SpanOptions,
+  SpanStatus,
+  SpanStatusCode,
+  trace,
+  Tracer,
+  TracerProvider,
+} from '@opentelemetry/api';
+import crypto from 'crypto';
 
 export const nodeJsWorkerTestItem = {
   name: 'node_worker_echo',
@@ -69,3 +85,109 @@ export function getMetricRecords<T>(
       return attributesEquals(it.attributes, attributes);
     });
 }
+
+export class TestSpan implements Span {
+  attributes: SpanAttributes;
+  status: SpanStatus = { code: SpanStatusCode.UNSET };
+  exceptions: Exception[] = [];
+  ended = false;
+
+  constructor(
+    public name: string,
+    readonly kind: SpanKind,
+    readonly parentSpanId: string | undefined,
+    private _spanContext: SpanContext,
+    attributes: SpanAttributes = {}
+  ) {
+    this.attributes = { ...attributes };
+  }
+
+  spanContext() {
+    return this._spanContext;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue) {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes) {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent() {
+    return this;
+  }
+
+  addLink() {
+    return this;
+  }
+
+  addLinks() {
+    return this;
+  }
+
+  setStatus(status: SpanStatus) {
+    this.status = status;
+    return this;
+  }
+
+  updateName(name: string) {
+    this.name = name;
+    return this;
+  }
+
+  end() {
+    if (this.ended) {
+      throw new Error(`span ${this.name} ended twice`);
+    }
+    this.ended = true;
+  }
+
+  isRecording() {
+    return !this.ended;
+  }
+
+  recordException(exception: Exception) {
+    this.exceptions.push(exception);
+  }
+}
+
+/**
+ * Keeps spans in memory. Register with `trace.setGlobalTracerProvider` and
+ * reset with `trace.disable()`.
+ */
+export class TestTracerProvider implements TracerProvider {
+  spans: TestSpan[] = [];
+
+  private _tracer: Tracer = {
+    startSpan: (name: string, options: SpanOptions = {}, ctx?: Context) => {
+      const parent = ctx && trace.getSpanContext(ctx);
+      const span = new TestSpan(
+        name,
+        options.kind ?? SpanKind.INTERNAL,
+        parent?.spanId,
+        {
+          traceId: parent?.traceId ?? crypto.randomBytes(16).toString('hex'),
+          spanId: crypto.randomBytes(8).toString('hex'),
+          traceFlags: 1,
+        },
+        options.attributes
+      );
+      this.spans.push(span);
+      return span;
+    },
+    startActiveSpan: () => {
+      throw new Error('not implemented');
+    },
+  };
+
+  getTracer() {
+    return this._tracer;
+  }
+
+  getSpans(name: string) {
+    return this.spans.filter(it => it.name === name);
+  }
+}
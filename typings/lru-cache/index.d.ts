@@ -11,6 +11,7 @@ declare module 'lru-cache' {
 
     readonly max: number;
     readonly maxSize: number;
+    readonly size: number;
     readonly sizeCalculation?: (value: V, key: K) => number | undefined;
     readonly dispose?: (
       this: LRUCache<K, V>,